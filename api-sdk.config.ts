@@ -0,0 +1,11 @@
+import { defineConfig } from './scripts/api-sdk-utils/config.ts';
+
+export default defineConfig({
+	appDir: 'app',
+	output: {
+		client: 'api/client-sdk.ts',
+		server: 'api/server-sdk.ts',
+	},
+	runtimeImportPath: '../utils',
+	keyCasing: 'upper',
+});
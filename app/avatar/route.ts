@@ -0,0 +1,11 @@
+// a transparent 1x1 PNG
+const PIXEL = Uint8Array.from(
+	atob('iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAQAAAC1HAwCAAAAC0lEQVR42mNkYAAAAAYAAjCB0C8AAAAASUVORK5CYII='),
+	(char) => char.charCodeAt(0),
+);
+
+export async function GET() {
+	return new Response(PIXEL, {
+		headers: { 'Content-Type': 'image/png', 'Cache-Control': 'public, max-age=86400' },
+	});
+}
@@ -0,0 +1,30 @@
+import { NextRequest } from 'next/server';
+
+const TICKS = 5;
+
+const encodeEvent = (id: number, data: { tick: number; at: string }) =>
+	`id: ${id}\nevent: tick\ndata: ${JSON.stringify(data)}\n\n`;
+
+export async function GET(req: NextRequest) {
+	// a reconnecting client resumes after the last event it received
+	const lastEventId = Number(req.headers.get('Last-Event-ID') ?? 0);
+	if (lastEventId >= TICKS) return new Response(null, { status: 204 });
+
+	const encoder = new TextEncoder();
+	const stream = new ReadableStream({
+		async start(controller) {
+			for (let tick = lastEventId + 1; tick <= TICKS; tick++) {
+				controller.enqueue(encoder.encode(encodeEvent(tick, { tick, at: new Date().toISOString() })));
+				await new Promise((resolve) => setTimeout(resolve, 1000));
+			}
+			controller.close();
+		},
+	});
+
+	return new Response(stream, {
+		headers: {
+			'Content-Type': 'text/event-stream',
+			'Cache-Control': 'no-cache',
+		},
+	});
+}
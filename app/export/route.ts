@@ -0,0 +1,17 @@
+import { NextResponse } from 'next/server';
+
+const ROWS = [
+	{ id: 1, name: 'Ada', role: 'admin' },
+	{ id: 2, name: 'Linus', role: 'member' },
+];
+
+export async function GET() {
+	const csv = ['id,name,role', ...ROWS.map((row) => `${row.id},${row.name},${row.role}`)].join('\n');
+
+	return new NextResponse(csv, {
+		headers: {
+			'Content-Type': 'text/csv',
+			'Content-Disposition': 'attachment; filename="users.csv"',
+		},
+	});
+}
@@ -0,0 +1,18 @@
+import { NextRequest, NextResponse } from 'next/server';
+
+const EVENTS = Array.from({ length: 30 }, (_, i) => ({ id: `evt_${String(i + 1).padStart(3, '0')}`, type: 'deploy' }));
+
+export async function GET(req: NextRequest) {
+	'use infinite';
+
+	const { searchParams } = req.nextUrl;
+	const cursor = searchParams.get('cursor');
+	const limit = Number(searchParams.get('limit') || '10');
+
+	const start = cursor ? EVENTS.findIndex((event) => event.id === cursor) : 0;
+	const items = EVENTS.slice(start, start + limit);
+	const nextCursor = EVENTS[start + limit]?.id ?? null;
+	const previousCursor = start > 0 ? EVENTS[Math.max(0, start - limit)].id : null;
+
+	return NextResponse.json({ items, nextCursor, previousCursor });
+}
@@ -0,0 +1,19 @@
+import { NextResponse } from 'next/server';
+
+/** @type {{ title: string; done: boolean }[]} */
+const todos = [];
+
+export function GET() {
+    return NextResponse.json({ data: todos });
+}
+
+/**
+ * @param {import('next/server').NextRequest} request
+ */
+export async function POST(request) {
+    /** @type {{ title: string }} */
+    const body = await request.json();
+    const todo = { title: body.title, done: false };
+    todos.push(todo);
+    return NextResponse.json({ data: todo });
+}
@@ -1,4 +1,4 @@
-import { NextResponse } from 'next/server';
+import { NextRequest, NextResponse } from 'next/server';
 
 export async function GET() {
   // Redirect to a specific URL
@@ -9,3 +9,14 @@ export async function POST() {
   // Redirect to a specific URL with a 307 status code (Temporary Redirect)
   return NextResponse.redirect('https://example.com', { status: 307 });
 }
+
+export async function PUT(req: NextRequest) {
+  // Redirect to a path of this app, computed from the request URL, with a 308 status code (Permanent Redirect)
+  const next = req.nextUrl.searchParams.get('next') ?? '/';
+  const target = new URL(next, req.url);
+  // only paths of this app are accepted, so the endpoint can't be used to redirect to another site
+  if (!next.startsWith('/') || target.origin !== req.nextUrl.origin) {
+    return NextResponse.json({ error: 'next must be a path of this app' }, { status: 400 });
+  }
+  return NextResponse.redirect(target, 308);
+}
@@ -0,0 +1,13 @@
+import { NextRequest, NextResponse } from 'next/server';
+
+const POSTS = ['Getting started', 'Routing', 'Data fetching', 'Caching'];
+
+export async function POST(request: NextRequest) {
+	'use query';
+	'use retry 2';
+	'use timeout 5000';
+
+	const body: { term: string; limit?: number } = await request.json();
+	const results = POSTS.filter((title) => title.toLowerCase().includes(body.term.toLowerCase()));
+	return NextResponse.json({ results: results.slice(0, body.limit ?? results.length) });
+}
@@ -0,0 +1,16 @@
+import { NextRequest, NextResponse } from 'next/server';
+
+export async function POST(req: NextRequest) {
+	'use mutation';
+
+	const form = await req.formData();
+	const title = form.get('title') as string;
+	const file = form.get('file');
+	const tags = form.getAll('tags') as string[];
+
+	if (!(file instanceof File)) {
+		return NextResponse.json({ error: 'A file is required' }, { status: 400 });
+	}
+
+	return NextResponse.json({ title, name: file.name, size: file.size, type: file.type, tags }, { status: 201 });
+}
@@ -0,0 +1,16 @@
+#!/usr/bin/env node
+import { register } from 'node:module';
+import { pathToFileURL, fileURLToPath } from 'node:url';
+import * as path from 'node:path';
+
+const packageRoot = path.resolve(path.dirname(fileURLToPath(import.meta.url)), '..');
+
+// The generator ships as TypeScript; compile it on the fly with the tsconfig shipped next to this file,
+// including when it is installed under node_modules.
+process.env.TS_NODE_PROJECT ??= path.join(packageRoot, 'bin', 'tsconfig.json');
+process.env.TS_NODE_IGNORE ??= '(?:^|/)node_modules/(?!app-router-sdk/)';
+process.env.TS_NODE_TRANSPILE_ONLY ??= 'true';
+
+register('ts-node/esm', pathToFileURL(packageRoot + path.sep));
+
+await import('../scripts/cli.ts');
@@ -1,7 +1,9 @@
 import type { NextConfig } from "next";
+import { withAppRouterSdk } from "./scripts/next-plugin.ts";
+import sdkConfig from "./api-sdk.config.ts";
 
 const nextConfig: NextConfig = {
   /* config options here */
 };
 
-export default nextConfig;
+export default withAppRouterSdk(nextConfig, sdkConfig);
@@ -1,149 +1,103 @@
-import type { RouteNode, MethodInfo } from './types.ts';
+import type { RouteNode, MethodInfo, CodeBuilderOptions } from './types.ts';
+import { formatKey } from './config.ts';
+import { classifySegment, isParamSegment, buildKeyLiteral, getParamSignature } from './segments.ts';
+import { toClientType, getRequestShape, getStreamItemType } from './fetch-code-builder.ts';
+import { getHookBackendTemplate } from './hook-backends.ts';
+import type { HookBackendTemplate, HookSignature } from './hook-backends.ts';
 
 /**
- * Builds the template literal string for the API path based on segments.
- * @param segments - The path segments.
- * @returns The path template literal string (e.g., `/${segment}/${param}`).
+ * Builds a hook function that takes the request options and then the options of the underlying hook, along with
+ * per-call fetch options as `request`.
+ * @param paramsSignature - The request options parameter, e.g. `({ query }: { query?: Query } = {})`.
+ * @param signature - The backend's hook signature.
+ * @returns The code string for the hook function.
  */
-function buildPathLiteral(segments: string[]): string {
-	const pathSegmentsLiteral = segments
-		.map((seg) => {
-			if (seg.startsWith('(') && seg.endsWith(')')) return '';
-
-			if (seg.startsWith('[...') && seg.endsWith(']')) {
-				const param = seg.slice(4, -1);
-				return '${' + param + '.join("/")}';
-			}
-			if (seg.startsWith('[') && seg.endsWith(']')) {
-				const param = seg.slice(1, -1);
-				return '${' + param + '}';
-			}
-			return seg;
-		})
-		.filter(Boolean)
-		.join('/');
-	return '`/' + pathSegmentsLiteral + '`';
-}
+const buildHookFunction = (paramsSignature: string, signature: HookSignature): string =>
+	`${signature.typeParams}(${paramsSignature.slice(1, -1)}, options?: ${signature.optionsType} & { request?: RequestOptions }): ${signature.returnType} => {` +
+	`\n  const { request, ...hookOptions } = options ?? {};` +
+	`\n  return ${signature.call};` +
+	`\n}`;
 
 /**
- * Builds the code string for a single HTTP method handler within the SDK object.
+ * Builds the code string for a single HTTP method handler within the SDK object. Requests are made by the
+ * matching fetch client function, so hooks only add caching on top of it.
  * @param methodInfo - Information about the method.
- * @param pathLit - The path template literal string.
+ * @param nodeKey - The query key literal string of the route.
+ * @param fetchPath - The expression of the route in the fetch client, e.g. `FetchAPI.POSTS.POSTID(postId)`.
+ * @param template - The template of the targeted React Query package.
  * @returns The code string for the method handler.
  */
-function buildMethodCode(methodInfo: MethodInfo, pathLit: string): string {
+function buildMethodCode(methodInfo: MethodInfo, nodeKey: string, fetchPath: string, template: HookBackendTemplate): string {
 	const methodName = methodInfo.name;
-	const dataType = methodInfo.returnType
-		.replace(/import\((?:'[^']+'|"[^"]+")\)\./g, '')
-		.replace(/\bRequestCookie\b/g, 'string')
-		.replace(/NextResponse<([^>]+)>/g, '$1');
-	const isGet = methodName === 'GET';
-	const inputType = methodInfo.inputType;
-
-	const usesBody = !isGet && (
-		inputType !== 'unknown' ||
-		Boolean(methodInfo.bodyVariableName) ||
-		((methodInfo.bodyParams?.length ?? 0) > 0)
-	);
-
-	const optionProps: string[] = [];
-
-	if (usesBody) optionProps.push(`body: ${inputType}`);
-
-	optionProps.push(`searchParams?: Record<string, string>`);
-
-	const optionsType = `{ ${optionProps.join('; ')} }`;
-
-
-	const propNames = optionProps.map(p => p.split(':')[0].replace('?','').trim());
-	const destructParams = propNames.join(', ');
-	const paramsSignature = usesBody
-		? `({ ${destructParams} }: ${optionsType})`
-		: `({ ${destructParams} }: ${optionsType} = {})`;
-
-	if (methodInfo.handlerCode && methodInfo.handlerCode.includes('NextResponse.redirect')) {
-		const execResult = /NextResponse\.redirect\(\s*(['"])(.*?)\1\)/.exec(methodInfo.handlerCode);
-		const redirectUrl = execResult && execResult[2] ? execResult[2] : '';
+	const dataType = toClientType(methodInfo.returnType);
+	const errorType = methodInfo.errorType ? toClientType(methodInfo.errorType) : 'unknown';
+	const { required, optionsType, destructParams, paramsSignature } = getRequestShape(methodInfo);
+	const fetchFn = `${fetchPath}.${methodName}`;
+	const args = `{ ${destructParams} }`;
+
+	if (methodInfo.responseKind === 'redirect') {
+		// the hook returns a function making the request, which navigates to the redirect unless told not to
 		return (
-			`${methodName}: ${paramsSignature}: void => {` +
-			`\n  const url = '${redirectUrl}' + (searchParams ? '?' + new URLSearchParams(searchParams) : '');` +
-			`\n  window.location.assign(url);` +
+			`${methodName}: (options?: RedirectOptions) => {` +
+			`\n  const router = useRouter();` +
+			`\n  return (${paramsSignature.slice(1, -1)}, request?: RequestOptions) => ${fetchFn}(${args}, request).then((result) => {` +
+			`\n    if (result.data && options?.followRedirect !== false) navigateToRedirect(router, result.data, options?.replace);` +
+			`\n    return result;` +
+			`\n  });` +
 			`\n},`
 		);
 	}
-	if (dataType.startsWith('ReadableStream')) {
-		if (isGet) {
-			return (
-				`${methodName}: ${paramsSignature} => ` +
-				`tryCatchFunction(async () => {` +
-				`\n      const res = await fetch(${pathLit} + (searchParams ? '?' + new URLSearchParams(searchParams) : ''));` +
-				`\n      const reader = res.body!.getReader();` +
-				`\n      const decoder = new TextDecoder();` +
-				`\n      return { reader, decoder };` +
-				`\n  }),`
-			);
-		}
+	const methodKey = `${nodeKey.slice(0, -1)}, '${methodName}']`;
 
-		if (!usesBody) {
-			return (
-				`${methodName}: ${paramsSignature} => ` +
-				`tryCatchFunction(async () => {` +
-				`\n      const res = await fetch(${pathLit} + (searchParams ? '?' + new URLSearchParams(searchParams) : ''), { method: '${methodName}' });` +
-				`\n      const reader = res.body!.getReader();` +
-				`\n      const decoder = new TextDecoder();` +
-				`\n      return { reader, decoder };` +
-				`\n  }),`
-			);
-		}
+	if (methodInfo.stream) {
+		// the key re-opens the stream when the request changes
 		return (
-			`${methodName}: ${paramsSignature} => ` +
-			`tryCatchFunction(async () => {` +
-			`\n      const res = await fetch(${pathLit} + (searchParams ? '?' + new URLSearchParams(searchParams) : ''), { method: '${methodName}', headers: {'Content-Type':'application/json'}, body: JSON.stringify(body) });` +
-			`\n      const reader = res.body!.getReader();` +
-			`\n      const decoder = new TextDecoder();` +
-			`\n      return { reader, decoder };` +
-			`\n  }),`
+			`${methodName}: (${paramsSignature.slice(1, -1)}, options?: UseStreamOptions): UseStreamResult<${getStreamItemType(methodInfo)}> => ` +
+			`useStream((signal) => ${fetchFn}(${args}, { signal }), ${methodKey.slice(0, -1)}, ${args}], options),`
 		);
 	}
 
-	const handlerCodeFull = methodInfo.handlerCode ?? '';
-	const hasInfiniteDirective = handlerCodeFull.includes("'use infinite'") || handlerCodeFull.includes('"use infinite"');
-	if (hasInfiniteDirective) {
-		if (usesBody) {
-			return (
-				`${methodName}: ${paramsSignature}: UseInfiniteQueryResult<${dataType}, unknown> => ` +
-				`useInfiniteQuery<${dataType}, unknown>(['${methodName}', ${pathLit}, searchParams, body], ({ pageParam = 1 }) => fetch(${pathLit} + (searchParams ? '?' + new URLSearchParams(searchParams) + '&pagination=' + pageParam : '?pagination=' + pageParam), { method: '${methodName}', headers: {'Content-Type':'application/json'}, body: JSON.stringify(body) }).then(res => res.json()), { getNextPageParam: (lastPage) => lastPage.nextPage }),`
-			);
-		}
-		return (
-			`${methodName}: ${paramsSignature}: UseInfiniteQueryResult<${dataType}, unknown> => ` +
-			`useInfiniteQuery<${dataType}, unknown>(['${methodName}', ${pathLit}, searchParams], ({ pageParam = 1 }) => fetch(${pathLit} + (searchParams ? '?' + new URLSearchParams(searchParams) + '&pagination=' + pageParam : '?pagination=' + pageParam)).then(res => res.json()), { getNextPageParam: (lastPage) => lastPage.nextPage }),`
-		);
+	if (methodInfo.pagination) {
+		const { pagination } = methodInfo;
+		const request = `${fetchFn}(${args}, pageParam, withSignal(request, signal)).then(unwrap)`;
+		const hook = buildHookFunction(paramsSignature, template.useInfiniteQuery({ dataType, errorType }, pagination, `key(${args})`, request, false));
+		const suspense = buildHookFunction(paramsSignature, template.useInfiniteQuery({ dataType, errorType }, pagination, `key(${args})`, request, true));
+		return `${methodName}: withQueryKey(${methodKey}, (key) => Object.assign(${hook}, { suspense: ${suspense} })),`;
 	}
-	const handlerLines = methodInfo.handlerCode?.trim().split('\n') ?? [];
-	const firstLine = handlerLines[0] ?? '';
-	const useMutationDirective = firstLine === '\'use mutation\';' || firstLine === '\"use mutation\";';
-	if (useMutationDirective) {
-		if (!usesBody) {
-			return (
-				`${methodName}: ${paramsSignature}: UseMutationResult<${dataType}, unknown, void> => ` +
-				`useMutation<${dataType}, unknown, void>(() => fetch(${pathLit} + (searchParams ? '?' + new URLSearchParams(searchParams) : ''), { method: '${methodName}' }).then(res => res.json())),`
-			);
-		}
+	if (methodInfo.hook === 'mutation') {
+		// the hook only takes options; the request itself is passed to `mutate()`, which may be called without
+		// arguments when nothing is required. Per-call options, such as an upload progress callback or an abort
+		// signal, are passed to `mutate()` as `request`, over the defaults passed to the hook as `request`.
+		const callType = `${optionsType.slice(0, -2)}; request?: RequestOptions }`;
+		const variablesType = required ? callType : `${callType} | void`;
+		const generics = `${dataType}, ${errorType}, ${variablesType}`;
+		const variables = required ? 'variables' : `variables || {}`;
+		const mutationFn =
+			`(variables) => { const { request: callRequest, ...requestOptions }${required ? '' : `: ${callType}`} = ${variables}; ` +
+			`return ${fetchFn}(requestOptions, { ...request, ...callRequest }).then(unwrap); }`;
+		const optionProps =
+			`...mutationOptions, onSuccess: async (data, variables, ...rest) => { ` +
+			`await options?.onSuccess?.(data, variables, ...rest); ` +
+			`await invalidateKeys(queryClient, options?.invalidates, data, variables); }`;
 		return (
-			`${methodName}: ${paramsSignature}: UseMutationResult<${dataType}, unknown, ${inputType}> => ` +
-			`useMutation<${dataType}, unknown, ${inputType}>(() => fetch(${pathLit} + (searchParams ? '?' + new URLSearchParams(searchParams) : ''), { method: '${methodName}', headers: {'Content-Type':'application/json'}, body: JSON.stringify(body) }).then(res => res.json())),`
-		);
-	}
-	if (usesBody) {
-		return (
-			`${methodName}: ${paramsSignature}: UseQueryResult<${dataType}, unknown> => ` +
-			`useQuery<${dataType}, unknown>(['${methodName}', ${pathLit}, searchParams, body], () => fetch(${pathLit} + (searchParams ? '?' + new URLSearchParams(searchParams) : ''), { method: '${methodName}', headers: {'Content-Type':'application/json'}, body: JSON.stringify(body) }).then(res => res.json())),`
+			`${methodName}: (options?: Omit<UseMutationOptions<${generics}>, 'mutationFn'> & { invalidates?: Invalidates<${dataType}, ${variablesType}>; request?: RequestOptions }): UseMutationResult<${generics}> => {` +
+			`\n  const queryClient = useQueryClient();` +
+			`\n  const { request, ...mutationOptions } = options ?? {};` +
+			`\n  return ${template.useMutation(generics, mutationFn, optionProps)};` +
+			`\n},`
 		);
 	}
+
+	// queries share their key and fetcher with the cache helpers; the hooks' `request` option isn't part of the key
+	const info = { dataType, errorType };
+	const queryFn = `({ signal }) => fetcher(withSignal(request, signal), ${args})`;
+	const queryOptions = template.queryOptions(info, `key(${args})`, `({ signal }) => fetcher({ signal }, ${args})`);
+	const hook = buildHookFunction(paramsSignature, template.useQuery(info, `key(${args})`, queryFn, false));
+	const suspense = buildHookFunction(paramsSignature, template.useQuery(info, `key(${args})`, queryFn, true));
+	const fetcher = `(request: RequestOptions, ${paramsSignature.slice(1, -1)}) => ${fetchFn}(${args}, request).then(unwrap)`;
 	return (
-		`${methodName}: ${paramsSignature}: UseQueryResult<${dataType}, unknown> => ` +
-		`useQuery<${dataType}, unknown>(['${methodName}', ${pathLit}, searchParams], () => fetch(${pathLit} + (searchParams ? '?' + new URLSearchParams(searchParams) : '')).then(res => res.json())),`
+		`${methodName}: withQueryCache(${methodKey}, ${fetcher}, (key, fetcher) => ` +
+		`Object.assign(${hook}, { options: ${paramsSignature} => ${queryOptions}, suspense: ${suspense} })),`
 	);
 }
 
@@ -151,59 +105,61 @@ function buildMethodCode(methodInfo: MethodInfo, pathLit: string): string {
  * Builds the code string for a dynamic child route (e.g., /users/[id]).
  * @param key - The key for the child in the parent object (e.g., 'USERS').
  * @param child - The child route node.
- * @param segments - The current path segments.
+ * @param options - The code builder options.
  * @param depth - The depth of this child route.
+ * @param fetchPath - The expression of the parent route in the fetch client.
  * @returns The code string for the dynamic child route.
  */
-function buildDynamicChildCode(key: string, child: RouteNode, segments: string[], depth: number): string[] {
-	let param: string;
-	let type: string;
-	if (child.segment.startsWith('[...') && child.segment.endsWith(']')) {
-		param = child.segment.slice(4, -1);
-		type = 'string[]';
-	} else {
-		param = child.segment.slice(1, -1);
-		type = 'string';
-	}
-	const childCode = buildObjectCode(child, [...segments, child.segment], depth + 1);
+function buildDynamicChildCode(key: string, child: RouteNode, options: CodeBuilderOptions, depth: number, fetchPath: string): string[] {
+	const { kind, key: param } = classifySegment(child.segment);
+	const formattedKey = formatKey(key, options.keyCasing);
+	const childCode = buildObjectCode(child, options, depth + 1, `${fetchPath}.${formattedKey}(${param})`);
 	const innerLines = childCode.split('\n').slice(1, -1);
 
-	return [`${key.toUpperCase()}: (${param}: ${type}) => ({`, ...innerLines, `}),`];
+	return [`${formattedKey}: (${param}${getParamSignature(kind)}) => ({`, ...innerLines, `}),`];
 }
 
 /**
  * Builds the code string for a static child route (e.g., /users/profile).
  * @param key - The key for the child in the parent object (e.g., 'PROFILE').
  * @param child - The child route node.
- * @param segments - The current path segments.
+ * @param options - The code builder options.
  * @param depth - The depth of this child route.
+ * @param fetchPath - The expression of the parent route in the fetch client.
  * @returns The code string for the static child route.
  */
-function buildStaticChildCode(key: string, child: RouteNode, segments: string[], depth: number): string {
-	const childCode = buildObjectCode(child, [...segments, child.segment], depth + 1);
-	return `${key.toUpperCase()}: ${childCode},`;
+function buildStaticChildCode(key: string, child: RouteNode, options: CodeBuilderOptions, depth: number, fetchPath: string): string {
+	const formattedKey = formatKey(key, options.keyCasing);
+	const childCode = buildObjectCode(child, options, depth + 1, `${fetchPath}.${formattedKey}`);
+	return `${formattedKey}: ${childCode},`;
 }
 
 /**
  * Builds the SDK object code recursively for the given route node.
  * @param node - The route node to build the code for.
- * @param segments - The segments of the path accumulated so far.
+ * @param options - The code builder options.
  * @param depth - The depth of this route.
+ * @param fetchPath - The expression of this route in the fetch client.
  * @returns The SDK object code string for the given route node.
  */
-export function buildObjectCode(node: RouteNode, segments: string[] = [], depth: number = 1): string {
-	const lines: string[] = ['{'];
-	const pathLit = buildPathLiteral(segments);
+export function buildObjectCode(
+	node: RouteNode,
+	options: CodeBuilderOptions,
+	depth: number = 1,
+	fetchPath: string = 'FetchAPI',
+): string {
+	const nodeKey = buildKeyLiteral(node.routePath);
+	const lines: string[] = ['{', `...queryNode(${nodeKey}),`];
 
 	node.methods.forEach((methodInfo: MethodInfo) => {
-		lines.push(buildMethodCode(methodInfo, pathLit));
+		lines.push(buildMethodCode(methodInfo, nodeKey, fetchPath, getHookBackendTemplate(options.hookBackend)));
 	});
 
 	Object.entries(node.children).forEach(([key, child]) => {
-		if (child.segment.startsWith('[') && child.segment.endsWith(']')) {
-			lines.push(...buildDynamicChildCode(key, child, segments, depth));
+		if (isParamSegment(classifySegment(child.segment).kind)) {
+			lines.push(...buildDynamicChildCode(key, child, options, depth, fetchPath));
 		} else {
-			lines.push(buildStaticChildCode(key, child, segments, depth));
+			lines.push(buildStaticChildCode(key, child, options, depth, fetchPath));
 		}
 	});
 
@@ -0,0 +1,212 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { pathToFileURL } from 'url';
+import type { HookBackend } from './hook-backends.ts';
+
+/**
+ * Casing applied to the property keys of the generated `API` object.
+ * - `upper`: `NO_RESPONSE` (default)
+ * - `lower`: `no_response`
+ * - `camel`: `noResponse`
+ * - `pascal`: `NoResponse`
+ * - `preserve`: the folder name as written
+ */
+export type KeyCasing = 'upper' | 'lower' | 'camel' | 'pascal' | 'preserve';
+
+/**
+ * The SDK outputs the generator knows how to emit.
+ */
+export type SdkOutput = 'client' | 'server' | 'fetch';
+
+/**
+ * User-facing generator configuration, as written in `api-sdk.config.ts`.
+ * Relative paths are resolved against the directory containing the config file.
+ */
+export interface ApiSdkConfig {
+	/** The App Router directory. Defaults to `app`, or `src/app` when only that exists. */
+	appDir?: string;
+	/** The tsconfig used by ts-morph to resolve types. Defaults to `tsconfig.json`. */
+	tsConfigFilePath?: string;
+	/** The Prettier config used to format the output. Defaults to `.prettierrc`. */
+	prettierConfigPath?: string;
+	/** Output file paths for each SDK. */
+	output?: Partial<Record<SdkOutput, string>>;
+	/** Which SDKs to emit. Defaults to all three. The client SDK is built on the fetch client, so `client` implies `fetch`. */
+	emit?: SdkOutput[];
+	/**
+	 * Module specifier of the directory holding the runtime helpers (`tryCatch.ts`, `searchParams.ts`,
+	 * `response.ts`, `queryCache.ts`, `apiClient.ts`, `formData.ts`, `redirect.ts`, `callRoute.ts`,
+	 * `stream.ts`, `useStream.ts`), as imported from the generated files. Defaults to `app-router-sdk/utils`, the
+	 * helpers the package ships.
+	 */
+	runtimeImportPath?: string;
+	/** Casing of the generated `API` keys. Defaults to `upper`. */
+	keyCasing?: KeyCasing;
+	/** The React Query package the client SDK's hooks target. Defaults to `@tanstack/react-query`. */
+	hookBackend?: HookBackend;
+}
+
+/**
+ * Generator configuration with every option filled in and every path absolute.
+ */
+export interface ResolvedApiSdkConfig {
+	rootDir: string;
+	configFilePath?: string;
+	appDir: string;
+	tsConfigFilePath: string;
+	prettierConfigPath: string;
+	output: Record<SdkOutput, string>;
+	emit: SdkOutput[];
+	runtimeImportPath?: string;
+	keyCasing: KeyCasing;
+	hookBackend: HookBackend;
+}
+
+export const CONFIG_FILE_NAMES = ['api-sdk.config.ts', 'api-sdk.config.mts', 'api-sdk.config.js', 'api-sdk.config.mjs'];
+
+const DEFAULT_OUTPUT: Record<SdkOutput, string> = {
+	client: 'api/client-sdk.ts',
+	server: 'api/server-sdk.ts',
+	fetch: 'api/fetch-client.ts',
+};
+
+// the runtime helpers the package exports as `./utils/*`
+const DEFAULT_RUNTIME_IMPORT_PATH = 'app-router-sdk/utils';
+
+/**
+ * Identity helper that gives `api-sdk.config.ts` files type checking and editor completion.
+ * @param config - The generator configuration.
+ * @returns The same configuration.
+ */
+export const defineConfig = (config: ApiSdkConfig): ApiSdkConfig => config;
+
+/**
+ * Finds the config file to load, either from an explicit path or by looking in the root directory.
+ * @param rootDir - The directory to search.
+ * @param configPath - An explicit config path, e.g. from `--config`.
+ * @returns The absolute config path, or undefined if there is none.
+ */
+const findConfigFile = (rootDir: string, configPath?: string): string | undefined => {
+	if (configPath) {
+		const explicit = path.resolve(rootDir, configPath);
+		if (!fs.existsSync(explicit)) throw new Error(`Config file not found: ${explicit}`);
+		return explicit;
+	}
+	return CONFIG_FILE_NAMES.map((name) => path.join(rootDir, name)).find((file) => fs.existsSync(file));
+};
+
+/**
+ * Picks the default App Router directory, preferring `app` over `src/app`.
+ * @param rootDir - The project root.
+ * @returns The absolute app directory.
+ */
+const detectAppDir = (rootDir: string): string => {
+	const appDir = path.join(rootDir, 'app');
+	const srcAppDir = path.join(rootDir, 'src', 'app');
+	if (!fs.existsSync(appDir) && fs.existsSync(srcAppDir)) return srcAppDir;
+	return appDir;
+};
+
+/**
+ * Adds the outputs an emitted SDK depends on.
+ * @param emit - The SDKs to emit.
+ * @returns The SDKs to emit, including the fetch client when the client SDK is emitted.
+ */
+const resolveEmit = (emit: SdkOutput[]): SdkOutput[] =>
+	emit.includes('client') && !emit.includes('fetch') ? [...emit, 'fetch'] : emit;
+
+/**
+ * Fills in defaults and resolves every path in a config against the root directory.
+ * @param config - The user configuration.
+ * @param rootDir - The directory relative paths are resolved against.
+ * @param configFilePath - The file the config was loaded from, if any.
+ * @returns The resolved configuration.
+ */
+export const resolveConfig = (
+	config: ApiSdkConfig,
+	rootDir: string,
+	configFilePath?: string,
+): ResolvedApiSdkConfig => {
+	const output = { ...DEFAULT_OUTPUT, ...config.output };
+	return {
+		rootDir,
+		configFilePath,
+		appDir: config.appDir ? path.resolve(rootDir, config.appDir) : detectAppDir(rootDir),
+		tsConfigFilePath: path.resolve(rootDir, config.tsConfigFilePath ?? 'tsconfig.json'),
+		prettierConfigPath: path.resolve(rootDir, config.prettierConfigPath ?? '.prettierrc'),
+		output: {
+			client: path.resolve(rootDir, output.client),
+			server: path.resolve(rootDir, output.server),
+			fetch: path.resolve(rootDir, output.fetch),
+		},
+		emit: resolveEmit(config.emit ?? ['client', 'server', 'fetch']),
+		runtimeImportPath: config.runtimeImportPath,
+		keyCasing: config.keyCasing ?? 'upper',
+		hookBackend: config.hookBackend ?? '@tanstack/react-query',
+	};
+};
+
+/**
+ * Loads and resolves the generator config.
+ * @param configPath - An explicit config path that overrides the default lookup.
+ * @param rootDir - The directory to look for a config file in.
+ * @returns The resolved configuration.
+ */
+export const loadConfig = async (
+	configPath?: string,
+	rootDir: string = process.cwd(),
+): Promise<ResolvedApiSdkConfig> => {
+	const configFile = findConfigFile(rootDir, configPath);
+	if (!configFile) return resolveConfig({}, rootDir);
+
+	const mod = await import(pathToFileURL(configFile).href);
+	const config: ApiSdkConfig = mod.default ?? mod.config ?? {};
+	return resolveConfig(config, path.dirname(configFile), configFile);
+};
+
+/**
+ * Returns the module specifier the generated files use to import a runtime helper module.
+ * @param config - The resolved configuration.
+ * @param moduleName - The runtime module, e.g. `tryCatch.ts`.
+ * @returns The import specifier.
+ */
+export const getRuntimeImport = (config: ResolvedApiSdkConfig, moduleName: string): string =>
+	`${(config.runtimeImportPath ?? DEFAULT_RUNTIME_IMPORT_PATH).replace(/\/$/, '')}/${moduleName}`;
+
+/**
+ * Returns the module specifier a generated file should use to import another generated file.
+ * @param outFile - The generated file doing the import.
+ * @param targetFile - The generated file to import, e.g. the fetch client.
+ * @returns The relative import specifier.
+ */
+export const getOutputImport = (outFile: string, targetFile: string): string => {
+	const specifier = path.relative(path.dirname(outFile), targetFile).split(path.sep).join('/');
+	return specifier.startsWith('.') ? specifier : `./${specifier}`;
+};
+
+/**
+ * Converts a route segment key to the configured casing.
+ * @param key - The raw key, e.g. `no_response` or `postId`.
+ * @param casing - The casing to apply.
+ * @returns The cased key.
+ */
+export const formatKey = (key: string, casing: KeyCasing): string => {
+	const words = key
+		.replace(/([a-z0-9])([A-Z])/g, '$1 $2')
+		.split(/[^A-Za-z0-9$]+/)
+		.filter(Boolean);
+	switch (casing) {
+		case 'upper':
+			return key.toUpperCase();
+		case 'lower':
+			return key.toLowerCase();
+		case 'camel':
+			return words
+				.map((w, i) => (i === 0 ? w.toLowerCase() : w[0].toUpperCase() + w.slice(1).toLowerCase()))
+				.join('');
+		case 'pascal':
+			return words.map((w) => w[0].toUpperCase() + w.slice(1).toLowerCase()).join('');
+		case 'preserve':
+			return key;
+	}
+};
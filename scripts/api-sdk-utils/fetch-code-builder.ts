@@ -0,0 +1,264 @@
+import type { RouteNode, MethodInfo, CodeBuilderOptions } from './types.ts';
+import { formatKey } from './config.ts';
+import {
+	classifySegment,
+	isParamSegment,
+	buildPathLiteral,
+	buildRoutePattern,
+	buildParamsLiteral,
+	buildParamsType,
+	getParamSignature,
+} from './segments.ts';
+import { isBodilessMethod } from './handler-resolver.ts';
+import { getRedirectTarget } from './type-utils.ts';
+
+/**
+ * Describes how a route method is called from the browser: the options it takes and how they map onto the request.
+ */
+export interface RequestShape {
+	/** Whether the request sends a JSON body. */
+	usesBody: boolean;
+	/** The typed query, or undefined when the method takes untyped `searchParams`. */
+	queryType?: string;
+	/** Whether the options argument is required. */
+	required: boolean;
+	/** The type of the options argument, e.g. `{ body: Post; query?: { draft?: string } }`. */
+	optionsType: string;
+	/** The destructured option names, e.g. `body, query`. */
+	destructParams: string;
+	/** The options parameter, with a `{}` default when nothing is required. */
+	paramsSignature: string;
+	/** The expression of the query string appended to the path. */
+	queryString: string;
+	/** The `fetch` init expression. */
+	init: string;
+}
+
+/**
+ * Rewrites an inferred type so it can be used in the browser SDKs.
+ * @param type - The type string, as printed by the type checker.
+ * @returns The type string without import qualifiers or server-only types.
+ */
+export const toClientType = (type: string): string =>
+	type
+		.replace(/import\((?:'[^']+'|"[^"]+")\)\./g, '')
+		.replace(/\bRequestCookie\b/g, 'string')
+		.replace(/NextResponse<([^>]+)>/g, '$1');
+
+/**
+ * Returns the type of the items a streaming endpoint yields.
+ * @param methodInfo - Information about the method.
+ * @returns `string` for text streams, or `StreamEvent<T>` for event streams.
+ */
+export const getStreamItemType = (methodInfo: MethodInfo): string =>
+	methodInfo.stream?.format === 'events' ? `StreamEvent<${toClientType(methodInfo.stream.eventType)}>` : 'string';
+
+/**
+ * Works out the options a route method takes in the browser SDKs.
+ * @param methodInfo - Information about the method.
+ * @returns The request shape.
+ */
+export function getRequestShape(methodInfo: MethodInfo): RequestShape {
+	const methodName = methodInfo.name;
+	const inputType = methodInfo.inputType;
+	const usesBody = !isBodilessMethod(methodName) && (
+		inputType !== 'unknown' ||
+		Boolean(methodInfo.bodyVariableName) ||
+		((methodInfo.bodyParams?.length ?? 0) > 0)
+	);
+
+	const queryType = methodInfo.queryType;
+	const queryRequired = Boolean(queryType && methodInfo.queryRequired);
+	const queryString = queryType
+		? `(query ? '?' + toSearchParams(query) : '')`
+		: `(searchParams ? '?' + new URLSearchParams(searchParams) : '')`;
+
+	const optionProps: string[] = [];
+	// form bodies may also be passed as a ready-made FormData
+	const isForm = methodInfo.bodyFormat === 'form';
+	if (usesBody) optionProps.push(`body: ${isForm ? `${inputType} | FormData` : inputType}`);
+	optionProps.push(queryType ? `query${queryRequired ? '' : '?'}: ${queryType}` : `searchParams?: Record<string, string>`);
+
+	const optionsType = `{ ${optionProps.join('; ')} }`;
+	const destructParams = optionProps.map((p) => p.split(':')[0].replace('?', '').trim()).join(', ');
+	const required = usesBody || queryRequired;
+	const paramsSignature = required
+		? `({ ${destructParams} }: ${optionsType})`
+		: `({ ${destructParams} }: ${optionsType} = {})`;
+	const initProps = [`method: '${methodName}'`];
+	// fetch sets the multipart Content-Type itself, with the boundary
+	if (usesBody && isForm) initProps.push('body: toFormData(body)');
+	else if (usesBody) initProps.push(`headers: {'Content-Type':'application/json'}`, 'body: JSON.stringify(body)');
+	// redirects are read rather than followed, so the client can navigate to them
+	if (methodInfo.responseKind === 'redirect') initProps.push(`redirect: 'manual'`);
+	const init = `{ ${initProps.join(', ')} }`;
+
+	return { usesBody, queryType, required, optionsType, destructParams, paramsSignature, queryString, init };
+}
+
+/**
+ * Builds the `apiFetch` call that sends a request through the client middleware.
+ * @param methodInfo - Information about the method.
+ * @param routePath - The URL-bearing folder names of the route.
+ * @param url - The request URL expression.
+ * @param inputs - The option names passed to the method, as listed in the middleware context.
+ * @returns The `apiFetch` call expression.
+ */
+function buildApiFetchCall(methodInfo: MethodInfo, routePath: string[], url: string, inputs: string): string {
+	const { init } = getRequestShape(methodInfo);
+	const policy = methodInfo.policy ? `, policy: ${JSON.stringify(methodInfo.policy)}` : '';
+	return (
+		`apiFetch({ route: '${buildRoutePattern(routePath)}', method: '${methodInfo.name}', url: ${url}, init: ${init}, ` +
+		`inputs: { params: ${buildParamsLiteral(routePath)}, ${inputs} }${policy} }, request)`
+	);
+}
+
+/**
+ * Builds the callback decoding a method's response the way its handler sends it.
+ * @param methodInfo - Information about the method.
+ * @returns The `readStatusResponse` or `readRedirect` callback.
+ */
+export function buildResponseReader(methodInfo: MethodInfo): string {
+	const kind = methodInfo.responseKind;
+	if (kind === 'redirect') {
+		const redirects = methodInfo.redirects ?? [];
+		const [first] = redirects;
+		const status = redirects.every((redirect) => redirect.status === first?.status) ? first?.status ?? 307 : 307;
+		// browsers hide the target of a manual redirect: a target known from the handler is used instead, and a GET
+		// endpoint is itself a target that leads there. Following the redirect of another method would send the
+		// request again to the target, so its computed target can only be read outside of browsers.
+		const target = getRedirectTarget(methodInfo);
+		if (target !== undefined) return `(res) => readRedirect(res, { location: ${JSON.stringify(target)}, status: ${status} })`;
+		return methodInfo.name === 'GET' ? `(res) => readRedirect(res, { location: res.url, status: ${status} })` : 'readRedirect';
+	}
+	const reader = `readStatusResponse<${getResolvedType(methodInfo)}>`;
+	return kind === 'empty' || kind === 'text' || kind === 'binary' || kind === 'head' ? `(res) => ${reader}(res, '${kind}')` : reader;
+}
+
+/**
+ * Gets the `tryCatch` wrapper of a method's request: its Result carries the status of a decoded response, and the
+ * redirect target of a redirect.
+ * @param methodInfo - Information about the method.
+ * @returns The wrapper, e.g. `tryCatchStatus<HttpError<404, { error: string }> | UnexpectedHttpError<404> | RequestError>()`.
+ */
+export function getResultWrapper(methodInfo: MethodInfo): string {
+	const errorType = methodInfo.errorType ? toClientType(methodInfo.errorType) : undefined;
+	if (methodInfo.responseKind === 'redirect') return errorType ? `tryCatchWithError<${errorType}>()` : 'tryCatchFunction';
+	return `tryCatchStatus<${errorType ?? 'Error'}>()`;
+}
+
+/**
+ * Gets the type a method's request resolves to before it is wrapped in a Result.
+ * @param methodInfo - Information about the method.
+ * @returns The `{ status; data }` union of a decoded response, or the `RedirectResult` of a redirect.
+ */
+export function getResolvedType(methodInfo: MethodInfo): string {
+	if (methodInfo.responseKind === 'redirect') return toClientType(methodInfo.returnType);
+	return toClientType(methodInfo.successType ?? `{ status: number; data: ${methodInfo.returnType} }`);
+}
+
+/**
+ * Builds the code string for a single HTTP method within the fetch client object.
+ * @param methodInfo - Information about the method.
+ * @param routePath - The URL-bearing folder names of the route.
+ * @returns The code string for the method.
+ */
+function buildFetchMethodCode(methodInfo: MethodInfo, routePath: string[]): string {
+	const methodName = methodInfo.name;
+	const resolvedType = getResolvedType(methodInfo);
+	const pathLit = buildPathLiteral(routePath);
+	const { paramsSignature, destructParams, queryString } = getRequestShape(methodInfo);
+	// every method takes per-call overrides of the configureApiClient() options last
+	const params = `(${paramsSignature.slice(1, -1)}, request?: RequestOptions)`;
+	const apiFetchCall = buildApiFetchCall(methodInfo, routePath, `${pathLit} + ${queryString}`, destructParams);
+
+	if (methodInfo.stream) {
+		// the request is made by a callback, so an event stream can reopen it with Last-Event-ID
+		const { format, eventType } = methodInfo.stream;
+		const streamOptions = format === 'events' ? `{ events: true, json: ${eventType !== 'string'} }` : '{}';
+		return (
+			`${methodName}: ${params} => ` +
+			`tryCatchFunction(() => openStream<${getStreamItemType(methodInfo)}>((request) => ${apiFetchCall}, request, ${streamOptions})),`
+		);
+	}
+
+	const wrapper = getResultWrapper(methodInfo);
+	if (methodInfo.pagination) {
+		// the cursor is sent with the rest of the query, and left out when undefined
+		const { param, cursorType, initialCursor } = methodInfo.pagination;
+		const queryName = methodInfo.queryType ? 'query' : 'searchParams';
+		const pageUrl = `${pathLit} + '?' + toSearchParams({ ...${queryName}, ${JSON.stringify(param)}: pageParam })`;
+		const pageParam = initialCursor === 'undefined' ? `pageParam?: ${cursorType}` : `pageParam: ${cursorType} = ${initialCursor}`;
+		return (
+			`${methodName}: (${paramsSignature.slice(1, -1)}, ${pageParam}, request?: RequestOptions) => ` +
+			`${wrapper}((): Promise<${resolvedType}> => ${buildApiFetchCall(methodInfo, routePath, pageUrl, `${destructParams}, pageParam`)}.then(${buildResponseReader(methodInfo)})),`
+		);
+	}
+
+	return (
+		`${methodName}: ${params} => ` +
+		`${wrapper}((): Promise<${resolvedType}> => ${apiFetchCall}.then(${buildResponseReader(methodInfo)})),`
+	);
+}
+
+/**
+ * Builds the fetch client object code recursively for the given route node. Every method is a plain async
+ * function returning a `Result`, so it can be called outside of React.
+ * @param node - The route node to build the code for.
+ * @param options - The code builder options.
+ * @param depth - The depth of this route.
+ * @returns The fetch client object code string for the given route node.
+ */
+export function buildFetchObjectCode(node: RouteNode, options: CodeBuilderOptions, depth: number = 1): string {
+	const lines: string[] = ['{'];
+
+	node.methods.forEach((methodInfo: MethodInfo) => {
+		lines.push(buildFetchMethodCode(methodInfo, node.routePath));
+	});
+
+	Object.entries(node.children).forEach(([key, child]) => {
+		const { kind, key: param } = classifySegment(child.segment);
+		const childCode = buildFetchObjectCode(child, options, depth + 1);
+		if (isParamSegment(kind)) {
+			const innerLines = childCode.split('\n').slice(1, -1);
+			lines.push(`${formatKey(key, options.keyCasing)}: (${param}${getParamSignature(kind)}) => ({`, ...innerLines, `}),`);
+		} else {
+			lines.push(`${formatKey(key, options.keyCasing)}: ${childCode},`);
+		}
+	});
+
+	lines.push('}');
+	return lines.join('\n');
+}
+
+/**
+ * Builds the inputs type of a method's `apiFetch` call, as listed in the middleware context.
+ * @param methodInfo - Information about the method.
+ * @param routePath - The URL-bearing folder names of the route.
+ * @returns The inputs type, e.g. `{ params: { postId: string }; body: Post; searchParams?: Record<string, string> }`.
+ */
+function buildInputsType(methodInfo: MethodInfo, routePath: string[]): string {
+	const { optionsType } = getRequestShape(methodInfo);
+	const props = [`params: ${buildParamsType(routePath)}`, optionsType.slice(2, -2)];
+	if (methodInfo.pagination) {
+		const { cursorType, initialCursor } = methodInfo.pagination;
+		props.push(`pageParam${initialCursor === 'undefined' ? '?' : ''}: ${cursorType}`);
+	}
+	return `{ ${props.join('; ')} }`;
+}
+
+/**
+ * Builds the members of the `ApiRoutes` interface the fetch client registers, so middleware can narrow its
+ * context by route pattern and method.
+ * @param node - The route node to build the members for, and its children.
+ * @returns The interface members, one per route with methods, e.g. `'/posts/[postId]': { GET: { ... } };`.
+ */
+export function buildApiRoutesCode(node: RouteNode): string[] {
+	const lines: string[] = [];
+	if (node.methods.length > 0) {
+		const methods = node.methods.map((methodInfo) => `${methodInfo.name}: ${buildInputsType(methodInfo, node.routePath)};`);
+		lines.push(`'${buildRoutePattern(node.routePath)}': { ${methods.join(' ')} };`);
+	}
+	Object.values(node.children).forEach((child) => lines.push(...buildApiRoutesCode(child)));
+	return lines;
+}
@@ -0,0 +1,186 @@
+import { Node } from 'ts-morph';
+import type { SourceFile, FunctionDeclaration, FunctionExpression, ArrowFunction, Signature } from 'ts-morph';
+
+/**
+ * The HTTP methods Next.js route handlers can export.
+ */
+export const HTTP_METHODS = ['GET', 'HEAD', 'POST', 'PUT', 'PATCH', 'DELETE', 'OPTIONS'] as const;
+
+export type HttpMethod = (typeof HTTP_METHODS)[number];
+
+/**
+ * A function node that implements a route handler.
+ */
+export type HandlerFunction = FunctionDeclaration | FunctionExpression | ArrowFunction;
+
+/**
+ * Represents an exported route handler, resolved through re-exports and higher-order wrappers.
+ */
+export interface RouteHandler {
+	/** The innermost handler function, e.g. the arrow function passed to `withAuth(...)`. */
+	node?: HandlerFunction;
+	/** The call signature of the exported value, falling back to the inner function's when the export is untyped. */
+	signature?: Signature;
+}
+
+/**
+ * Checks whether a method runs without a request body and is fetched like a query.
+ * @param method - The HTTP method name
+ * @returns True for `GET` and `HEAD`
+ */
+export const isBodilessMethod = (method: string): boolean => method === 'GET' || method === 'HEAD';
+
+/**
+ * The kinds of hooks the client SDK generates for a route handler.
+ */
+export type HookKind = 'query' | 'mutation' | 'infinite';
+
+const HOOK_DIRECTIVES: Record<string, HookKind> = {
+	'use query': 'query',
+	'use mutation': 'mutation',
+	'use infinite': 'infinite',
+};
+
+/**
+ * Reads the directive prologue of a handler, i.e. the string literal statements at the start of its body.
+ * @param node - The handler function
+ * @returns The directives, e.g. `['use query', 'use retry 3']`
+ */
+function getDirectives(node: HandlerFunction | undefined): string[] {
+	const body = node?.getBody();
+	if (!body || !Node.isBlock(body)) return [];
+
+	const directives: string[] = [];
+	for (const statement of body.getStatements()) {
+		if (!Node.isExpressionStatement(statement)) break;
+		const expression = statement.getExpression();
+		if (!Node.isStringLiteral(expression)) break;
+		directives.push(expression.getLiteralValue());
+	}
+	return directives;
+}
+
+/**
+ * Reads the hook directive (`'use query'`, `'use mutation'` or `'use infinite'`) from the directive prologue of a
+ * handler.
+ * @param node - The handler function
+ * @returns The hook kind the directive selects, or undefined if the handler has none
+ */
+export function getHookDirective(node: HandlerFunction | undefined): HookKind | undefined {
+	return getDirectives(node)
+		.map((directive) => HOOK_DIRECTIVES[directive])
+		.find(Boolean);
+}
+
+/**
+ * The retry and timeout policy a handler declares for the client calls to it.
+ */
+export interface RequestPolicy {
+	/** How many times a failed request is retried, from `'use retry 3'`. */
+	retry?: number;
+	/** The time in milliseconds to wait for a response, from `'use timeout 5000'`. */
+	timeout?: number;
+}
+
+const POLICY_DIRECTIVE = /^use (retry|timeout) (\d+)$/;
+
+/**
+ * Reads the policy directives (`'use retry <count>'` and `'use timeout <ms>'`) from the directive prologue of a
+ * handler. A retry directive also opts non-idempotent methods into retries.
+ * @param node - The handler function
+ * @returns The declared policy, or undefined if the handler has none
+ */
+export function getRequestPolicy(node: HandlerFunction | undefined): RequestPolicy | undefined {
+	const policy: RequestPolicy = {};
+	getDirectives(node).forEach((directive) => {
+		const match = POLICY_DIRECTIVE.exec(directive);
+		if (match) policy[match[1] as keyof RequestPolicy] = Number(match[2]);
+	});
+	return Object.keys(policy).length > 0 ? policy : undefined;
+}
+
+// Methods that read without changing anything on the server
+const QUERY_METHODS = ['GET', 'HEAD', 'OPTIONS'];
+
+/**
+ * Chooses the hook a route handler gets in the client SDK. Reads (`GET`, `HEAD` and `OPTIONS`) are queries and writes
+ * are mutations, unless a directive overrides it, e.g. `'use query'` for a search endpoint that takes its filters as a
+ * POST body.
+ * @param method - The HTTP method name
+ * @param node - The handler function
+ * @returns The hook kind
+ */
+export const getHookKind = (method: string, node: HandlerFunction | undefined): HookKind =>
+	getHookDirective(node) ?? (QUERY_METHODS.includes(method) ? 'query' : 'mutation');
+
+/**
+ * Unwraps a node to the handler function it refers to. Follows identifiers to their declarations (including
+ * imports), skips parentheses and type assertions, and looks inside higher-order calls such as
+ * `withAuth(withLogging(async (req) => ...))` for the first argument that resolves to a function.
+ * @param node - The node to unwrap
+ * @param seen - The nodes already visited, to guard against cycles
+ * @returns The handler function, or undefined if none could be found
+ */
+function unwrapHandler(node: Node, seen: Set<Node> = new Set()): HandlerFunction | undefined {
+	if (seen.has(node)) return undefined;
+	seen.add(node);
+
+	if (Node.isFunctionDeclaration(node) || Node.isFunctionExpression(node) || Node.isArrowFunction(node)) return node;
+
+	if (Node.isVariableDeclaration(node)) {
+		const initializer = node.getInitializer();
+		return initializer && unwrapHandler(initializer, seen);
+	}
+
+	if (
+		Node.isParenthesizedExpression(node) ||
+		Node.isAsExpression(node) ||
+		Node.isSatisfiesExpression(node) ||
+		Node.isTypeAssertion(node) ||
+		Node.isNonNullExpression(node)
+	) {
+		return unwrapHandler(node.getExpression(), seen);
+	}
+
+	if (Node.isCallExpression(node)) {
+		for (const arg of node.getArguments()) {
+			const inner = unwrapHandler(arg, seen);
+			if (inner) return inner;
+		}
+		return undefined;
+	}
+
+	if (Node.isIdentifier(node)) {
+		const symbol = node.getSymbol();
+		const target = symbol?.getAliasedSymbol() ?? symbol;
+		for (const declaration of target?.getDeclarations() ?? []) {
+			const inner = unwrapHandler(declaration, seen);
+			if (inner) return inner;
+		}
+	}
+
+	return undefined;
+}
+
+/**
+ * Finds the route handlers a route file exports, using the type checker's view of its exports so that
+ * `export { handler as GET }`, `export { GET } from './handlers'` and wrapped handlers are all found.
+ * @param sourceFile - The route file
+ * @returns The resolved handlers by HTTP method, in {@link HTTP_METHODS} order
+ */
+export function resolveRouteHandlers(sourceFile: SourceFile): Map<HttpMethod, RouteHandler> {
+	const handlers = new Map<HttpMethod, RouteHandler>();
+	const exported = sourceFile.getExportedDeclarations();
+
+	HTTP_METHODS.forEach((method) => {
+		const declaration = exported.get(method)?.[0];
+		if (!declaration) return;
+
+		const node = unwrapHandler(declaration);
+		let signature: Signature | undefined = declaration.getType().getCallSignatures()[0];
+		if (node && (!signature || signature.getReturnType().isAny())) signature = node.getSignature();
+		handlers.set(method, { node, signature });
+	});
+
+	return handlers;
+}
@@ -0,0 +1,161 @@
+import type { PaginationInfo } from './types.ts';
+
+/**
+ * The React Query packages the client SDK can target.
+ * - `@tanstack/react-query`: v5, with `useSuspenseQuery` and `useSuspenseInfiniteQuery` (default)
+ * - `react-query`: v3, whose suspense variants pass `suspense: true`
+ */
+export type HookBackend = '@tanstack/react-query' | 'react-query';
+
+/**
+ * The types a hook call is built from.
+ */
+export interface HookCallInfo {
+	/** The response body type. */
+	dataType: string;
+	/** The error type. */
+	errorType: string;
+}
+
+/**
+ * The parts of a generated hook that depend on the backend. The hook takes the backend's options as its last
+ * argument, with a `TData` type parameter so that `select` narrows the returned data. The call spreads them as
+ * `hookOptions`, once the SDK's own `request` option is taken out.
+ */
+export interface HookSignature {
+	/** The hook's type parameters, e.g. `<TData = User>`. */
+	typeParams: string;
+	/** The type of the options forwarded to the underlying hook. */
+	optionsType: string;
+	/** The hook's return type. */
+	returnType: string;
+	/** The underlying hook call. */
+	call: string;
+}
+
+/**
+ * Emits the React Query calls and types of the client SDK for one backend.
+ */
+export interface HookBackendTemplate {
+	/** The import lines the client SDK needs. */
+	imports: string[];
+	/**
+	 * Builds the query options object a query endpoint exposes as `.options()`.
+	 * @param info - The data and error types.
+	 * @param queryKey - The query key expression.
+	 * @param queryFn - The query function expression.
+	 */
+	queryOptions(info: HookCallInfo, queryKey: string, queryFn: string): string;
+	/**
+	 * Builds a query hook.
+	 * @param info - The data and error types.
+	 * @param queryKey - The query key expression.
+	 * @param queryFn - The query function expression.
+	 * @param suspense - Whether to build the suspense variant.
+	 */
+	useQuery(info: HookCallInfo, queryKey: string, queryFn: string, suspense: boolean): HookSignature;
+	/**
+	 * Builds an infinite query hook.
+	 * @param info - The data and error types.
+	 * @param pagination - The endpoint's pagination contract.
+	 * @param queryKey - The query key expression.
+	 * @param request - The request expression, reading the cursor from `pageParam`, the abort signal from `signal`
+	 *   and the per-call options from `request`.
+	 * @param suspense - Whether to build the suspense variant.
+	 */
+	useInfiniteQuery(
+		info: HookCallInfo,
+		pagination: PaginationInfo,
+		queryKey: string,
+		request: string,
+		suspense: boolean,
+	): HookSignature;
+	/**
+	 * Builds a `useMutation` call.
+	 * @param generics - The data, error and variables type arguments.
+	 * @param mutationFn - The mutation function expression.
+	 * @param optionProps - The remaining properties of the mutation options, e.g. `...options`.
+	 */
+	useMutation(generics: string, mutationFn: string, optionProps: string): string;
+}
+
+// the generated options own the key and fetcher, so callers can't pass their own
+const OWNED_QUERY_OPTIONS = `'queryKey' | 'queryFn'`;
+const OWNED_INFINITE_OPTIONS = `'queryKey' | 'queryFn' | 'initialPageParam' | 'getNextPageParam' | 'getPreviousPageParam'`;
+
+/**
+ * Builds the cursor extractors of an infinite query, which read the cursors from the first and last pages.
+ * @param pagination - The endpoint's pagination contract.
+ * @returns The `getNextPageParam` and optional `getPreviousPageParam` properties.
+ */
+const buildPageParamGetters = ({ nextField, previousField }: PaginationInfo): string =>
+	`getNextPageParam: (lastPage) => lastPage.${nextField} ?? undefined` +
+	(previousField ? `, getPreviousPageParam: (firstPage) => firstPage.${previousField} ?? undefined` : '');
+
+const tanstackTemplate: HookBackendTemplate = {
+	imports: [
+		"import { queryOptions, useQuery, useSuspenseQuery, useInfiniteQuery, useSuspenseInfiniteQuery, useMutation, useQueryClient } from '@tanstack/react-query';",
+		"import type { InfiniteData, QueryKey, UseQueryOptions, UseQueryResult, UseSuspenseQueryOptions, UseSuspenseQueryResult, UseInfiniteQueryOptions, UseInfiniteQueryResult, UseSuspenseInfiniteQueryOptions, UseSuspenseInfiniteQueryResult, UseMutationResult, UseMutationOptions } from '@tanstack/react-query';",
+	],
+	queryOptions: ({ dataType, errorType }, queryKey, queryFn) =>
+		`queryOptions<${dataType}, ${errorType}>({ queryKey: ${queryKey}, queryFn: ${queryFn} })`,
+	useQuery: ({ dataType, errorType }, queryKey, queryFn, suspense) => {
+		const prefix = suspense ? 'UseSuspenseQuery' : 'UseQuery';
+		return {
+			typeParams: `<TData = ${dataType}>`,
+			optionsType: `Omit<${prefix}Options<${dataType}, ${errorType}, TData>, ${OWNED_QUERY_OPTIONS}>`,
+			returnType: `${prefix}Result<TData, ${errorType}>`,
+			call: `${suspense ? 'useSuspenseQuery' : 'useQuery'}<${dataType}, ${errorType}, TData>({ queryKey: ${queryKey}, queryFn: ${queryFn}, ...hookOptions })`,
+		};
+	},
+	useInfiniteQuery: ({ dataType, errorType }, pagination, queryKey, request, suspense) => {
+		const prefix = suspense ? 'UseSuspenseInfiniteQuery' : 'UseInfiniteQuery';
+		const cursorType = pagination.initialCursor === 'undefined' ? `${pagination.cursorType} | undefined` : pagination.cursorType;
+		const generics = `${dataType}, ${errorType}, TData, QueryKey, ${cursorType}`;
+		return {
+			typeParams: `<TData = InfiniteData<${dataType}>>`,
+			optionsType: `Omit<${prefix}Options<${generics}>, ${OWNED_INFINITE_OPTIONS}>`,
+			returnType: `${prefix}Result<TData, ${errorType}>`,
+			call:
+				`${suspense ? 'useSuspenseInfiniteQuery' : 'useInfiniteQuery'}<${generics}>({ queryKey: ${queryKey}, queryFn: ({ pageParam, signal }) => ${request}, ` +
+				`initialPageParam: ${pagination.initialCursor}, ${buildPageParamGetters(pagination)}, ...hookOptions })`,
+		};
+	},
+	useMutation: (generics, mutationFn, optionProps) => `useMutation<${generics}>({ mutationFn: ${mutationFn}, ${optionProps} })`,
+};
+
+const reactQueryV3Template: HookBackendTemplate = {
+	imports: [
+		"import { useQuery, useInfiniteQuery, useMutation, useQueryClient } from 'react-query';",
+		"import type { QueryKey, UseQueryOptions, UseQueryResult, UseInfiniteQueryOptions, UseInfiniteQueryResult, UseMutationResult, UseMutationOptions } from 'react-query';",
+	],
+	queryOptions: ({ dataType, errorType }, queryKey, queryFn) =>
+		`({ queryKey: ${queryKey}, queryFn: ${queryFn} }) satisfies UseQueryOptions<${dataType}, ${errorType}>`,
+	useQuery: ({ dataType, errorType }, queryKey, queryFn, suspense) => ({
+		typeParams: `<TData = ${dataType}>`,
+		optionsType: `Omit<UseQueryOptions<${dataType}, ${errorType}, TData>, ${OWNED_QUERY_OPTIONS}>`,
+		returnType: `UseQueryResult<TData, ${errorType}>`,
+		call: `useQuery<${dataType}, ${errorType}, TData>({ queryKey: ${queryKey}, queryFn: ${queryFn}, ...hookOptions${suspense ? ', suspense: true' : ''} })`,
+	}),
+	useInfiniteQuery: ({ dataType, errorType }, pagination, queryKey, request, suspense) => ({
+		typeParams: `<TData = ${dataType}>`,
+		optionsType: `Omit<UseInfiniteQueryOptions<${dataType}, ${errorType}, TData, ${dataType}, QueryKey>, ${OWNED_INFINITE_OPTIONS}>`,
+		returnType: `UseInfiniteQueryResult<TData, ${errorType}>`,
+		call:
+			`useInfiniteQuery<${dataType}, ${errorType}, TData>({ queryKey: ${queryKey}, queryFn: ({ pageParam${pagination.initialCursor === 'undefined' ? '' : ` = ${pagination.initialCursor}`}, signal }) => ${request}, ` +
+			`${buildPageParamGetters(pagination)}, ...hookOptions${suspense ? ', suspense: true' : ''} })`,
+	}),
+	useMutation: (generics, mutationFn, optionProps) => `useMutation<${generics}>({ mutationFn: ${mutationFn}, ${optionProps} })`,
+};
+
+const HOOK_BACKEND_TEMPLATES: Record<HookBackend, HookBackendTemplate> = {
+	'@tanstack/react-query': tanstackTemplate,
+	'react-query': reactQueryV3Template,
+};
+
+/**
+ * Returns the template the client SDK uses to emit hooks for a backend.
+ * @param backend - The React Query package to target.
+ * @returns The backend's template.
+ */
+export const getHookBackendTemplate = (backend: HookBackend): HookBackendTemplate => HOOK_BACKEND_TEMPLATES[backend];
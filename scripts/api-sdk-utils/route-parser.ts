@@ -1,40 +1,25 @@
 import * as fs from 'fs';
 import * as path from 'path';
-import { SyntaxKind, Project, SourceFile, FunctionDeclaration, ArrowFunction, Signature, ParameterDeclaration, CallExpression, AwaitExpression, Node } from 'ts-morph';
-import type { MethodInfo, RouteNode, ImportDeclarationInfo } from './types.ts';
-import { refineMethodTypes } from './type-utils.ts';
+import { Node, SyntaxKind, Project, SourceFile, FunctionDeclaration, ArrowFunction, Signature, ParameterDeclaration, CallExpression, AwaitExpression } from 'ts-morph';
+import type { ObjectBindingPattern } from 'ts-morph';
+import type { MethodInfo, RouteNode, ImportDeclarationInfo, GeneratorDiagnostic } from './types.ts';
+import { refineMethodTypes, getRedirectTarget, determinePagination } from './type-utils.ts';
+import { resolveRouteHandlers, isBodilessMethod, getHookKind, getRequestPolicy } from './handler-resolver.ts';
+import type { HttpMethod, RouteHandler } from './handler-resolver.ts';
+import { classifySegment, isTransparentSegment } from './segments.ts';
+import type { SegmentInfo } from './segments.ts';
 
 /**
- * Extracts HTTP method handlers (GET, POST, etc.) defined in the route file content using regular expressions.
- * This provides an initial list of methods before deeper analysis with ts-morph.
- * @param content - The content of the route file
- * @returns A map of method names to their initial method info
+ * The route handler file names Next.js recognizes, in order of precedence.
  */
-function extractMethodsWithRegex(content: string): Map<string, MethodInfo> {
-	const methodsMap = new Map<string, MethodInfo>();
-	const patterns = [
-		// Match functions like: export async function GET(...): ReturnType { ... }
-		/export\s+(?:async\s+)?function\s+(GET|POST|PUT|PATCH|DELETE|OPTIONS)\s*\([^)]*\)\s*:\s*([^ {]+)/g,
-		// Match arrow functions like: export const POST = async (...): ReturnType => { ... }
-		/export\s+const\s+(GET|POST|PUT|PATCH|DELETE|OPTIONS)\s*=\s*async\s*\([^)]*\)\s*:\s*([^=]+?)\s*=>/g,
-		// Fallback to match names if type annotation is missing
-		/export\s+(?:async\s+)?(?:function|const)\s+(GET|POST|PUT|PATCH|DELETE|OPTIONS)\b/g,
-	];
-
-	patterns.forEach((pattern) => {
-		let m: RegExpExecArray | null;
-		while ((m = pattern.exec(content)) !== null) {
-			const name = m[1];
-			if (!methodsMap.has(name)) {
-				methodsMap.set(name, { name, returnType: m[2]?.trim() || 'unknown', inputType: 'unknown' });
-			} else if (!methodsMap.get(name)!.returnType || methodsMap.get(name)!.returnType === 'unknown') {
-				methodsMap.get(name)!.returnType = m[2]?.trim() || 'unknown';
-			}
-		}
-	});
+export const ROUTE_FILE_NAMES = ['route.ts', 'route.tsx', 'route.js', 'route.jsx', 'route.mjs'];
 
-	return methodsMap;
-}
+/**
+ * Checks whether a file is a route handler file.
+ * @param file - The file path
+ * @returns True if the file name is one of {@link ROUTE_FILE_NAMES}
+ */
+export const isRouteFile = (file: string): boolean => ROUTE_FILE_NAMES.includes(path.basename(file));
 
 /**
  * Extracts import declarations from a source file.
@@ -55,374 +40,359 @@ function extractImportsFromSourceFile(sourceFile: SourceFile): ImportDeclaration
 }
 
 /**
- * Removes a specific wrapper from the text.
- * @param text - The text to remove the wrapper from
- * @param prefix - The prefix of the wrapper
- * @returns The text with the wrapper removed
+ * Extracts the imports of a route file along with those of any module its handlers are re-exported from.
+ * @param sourceFile - The route file
+ * @param handlers - The resolved route handlers
+ * @returns The import declarations
  */
-const removeWrapper = (text: string, prefix: string): string => {
-	let res = '';
-	let idx = 0;
-	while (idx < text.length) {
-		if (text.startsWith(prefix, idx)) {
-			idx += prefix.length;
-			let depth = 1;
-			const start = idx;
-			while (idx < text.length && depth > 0) {
-				if (text[idx] === '(') depth++;
-				else if (text[idx] === ')') depth--;
-				idx++;
-			}
-			res += text.slice(start, idx - 1);
-		} else {
-			res += text[idx++];
-		}
-	}
-	return res;
-};
+function collectHandlerImports(sourceFile: SourceFile, handlers: Map<HttpMethod, RouteHandler>): ImportDeclarationInfo[] {
+	const sourceFiles = new Set([sourceFile]);
+	handlers.forEach((handler) => {
+		if (handler.node) sourceFiles.add(handler.node.getSourceFile());
+	});
+	return Array.from(sourceFiles).flatMap(extractImportsFromSourceFile);
+}
 
 /**
- * Removes a specific wrapper from the text.
- * @param text - The text to remove the wrapper from
- * @param prefix - The prefix of the wrapper
- * @returns The text with the wrapper removed
+ * Checks whether an expression reads the JSON request body, e.g. `await req.json()`.
+ * @param expr - The expression
+ * @param reqName - The name of the handler's request parameter
+ * @returns True for a `json()` call on the request, awaited or not
  */
-const removeNewWrapper = (text: string, prefix: string): string => {
-	let res = '';
-	let idx = 0;
-	while (idx < text.length) {
-		if (text.startsWith(prefix, idx)) {
-			idx += prefix.length;
-			let parenDepth = 1;
-			let bracketDepth = 0;
-			let curlyDepth = 0;
-			const start = idx;
-			let commaPos = -1;
-			let inString = false;
-			let stringChar = '';
-			while (idx < text.length && parenDepth > 0) {
-				const ch = text[idx];
-				if (inString) {
-					if (ch === '\\') {
-						idx += 2;
-						continue;
-					}
-					if (ch === stringChar) {
-						inString = false;
-					}
-				} else {
-					if (ch === '"' || ch === "'" || ch === '`') {
-						inString = true;
-						stringChar = ch;
-					} else if (ch === '(') {
-						parenDepth++;
-					} else if (ch === ')') {
-						parenDepth--;
-					} else if (ch === '[') {
-						bracketDepth++;
-					} else if (ch === ']') {
-						bracketDepth--;
-					} else if (ch === '{') {
-						curlyDepth++;
-					} else if (ch === '}') {
-						curlyDepth--;
-					} else if (
-						ch === ',' &&
-						parenDepth === 1 &&
-						bracketDepth === 0 &&
-						curlyDepth === 0 &&
-						commaPos < 0
-					) {
-						commaPos = idx;
-					}
-				}
-				idx++;
-			}
-			const endArgIdx = idx - 1;
-			const bodyArg = commaPos > 0 ? text.slice(start, commaPos) : text.slice(start, endArgIdx);
-			if (commaPos > 0) {
-				const initArg = text.slice(commaPos + 1, endArgIdx);
-				const statusMatch = /status\s*:\s*([0-9]+)/.exec(initArg);
-				const statusCode = statusMatch ? statusMatch[1] : null;
-				if (statusCode && statusCode !== '200') {
-					res += `( () => { const __body = ${bodyArg}; throw new Error(JSON.stringify(__body)); } )()`;
-					continue;
-				}
-			}
-			res += bodyArg;
-		} else {
-			res += text[idx++];
-		}
-	}
-	return res;
-};
+function isJsonBodyRead(expr: Node, reqName: string): boolean {
+	const call = (Node.isAwaitExpression(expr) ? expr.getExpression() : expr).asKind(SyntaxKind.CallExpression);
+	const callee = call?.getExpression().asKind(SyntaxKind.PropertyAccessExpression);
+	return callee?.getName() === 'json' && callee.getExpression().getText() === reqName;
+}
 
 /**
- * Strips the comma operator in return statements.
- * @param text - The text to strip the comma operator from
- * @returns The text with the comma operator stripped
+ * Gets the body keys an object binding pattern destructures, e.g. `name` and `email` from `{ name, email: address }`.
+ * @param pattern - The binding pattern
+ * @returns The property names, without rest elements
  */
-const stripReturnComma = (text: string): string => {
-	if (!text.trim().startsWith('return')) return text;
-	let res = '';
-	let idx = 0;
-	let depth = 0;
-	let inString = false;
-	let stringChar = '';
-	while (idx < text.length) {
-		const ch = text[idx];
-		if (inString) {
-			res += ch;
-			if (ch === '\\') {
-				res += text[idx + 1] || '';
-				idx += 2;
-				continue;
-			}
-			if (ch === stringChar) inString = false;
-			idx++;
-			continue;
-		}
-		if (ch === '"' || ch === "'") {
-			inString = true;
-			stringChar = ch;
-			res += ch;
-			idx++;
-			continue;
-		}
-		if (ch === '(' || ch === '{' || ch === '[') {
-			depth++;
-			res += ch;
-			idx++;
-			continue;
-		}
-		if (ch === ')' || ch === '}' || ch === ']') {
-			depth--;
-			res += ch;
-			idx++;
-			continue;
-		}
-		if (ch === ',' && depth === 0) {
-			break;
-		}
-		res += ch;
-		idx++;
-	}
-	const tail = text.slice(idx).match(/^.*?;/);
-	if (tail) res += ';';
-	return res;
-};
+const getBoundKeys = (pattern: ObjectBindingPattern): string[] =>
+	pattern
+		.getElements()
+		.filter((element) => !element.getDotDotDotToken())
+		.map((element) => element.getPropertyNameNode()?.getText() ?? element.getName());
 
 /**
- * Extracts and cleans the handler code for each method, removing common wrappers.
- * @param sourceFile - The source file containing the methods
- * @param methods - The methods to extract and process
+ * Detects the variables each method's handler reads its JSON request body into, and the body keys it destructures,
+ * either from the `json()` call or from such a variable.
+ * @param methods - The methods to process
+ * @param handlers - The resolved route handlers by method
  */
-function extractAndProcessHandlerCode(sourceFile: SourceFile, methods: MethodInfo[]): void {
+function detectJsonBodyReads(methods: MethodInfo[], handlers: Map<HttpMethod, RouteHandler>): void {
 	methods.forEach((info) => {
-		const handlerDecl = sourceFile.getVariableDeclaration(info.name);
-		const handlerNode =
-			handlerDecl?.getInitializerIfKind(SyntaxKind.ArrowFunction) ?? sourceFile.getFunction(info.name);
-
-		if (handlerNode) {
-			const params = handlerNode.getParameters();
-			info.paramName = params.length > 0 ? params[0].getName() : 'req';
-
-			let bodyText = '';
-			const bodyNode = handlerNode.getBody();
-
-			if (bodyNode) {
-				if (bodyNode.isKind(SyntaxKind.Block)) {
-					const full = bodyNode.getText();
-					bodyText = full.slice(1, -1).trim();
-				} else {
-					bodyText = `return ${bodyNode.getText()};`;
-				}
-
-				['JSON.stringify('].forEach((prefix) => {
-					bodyText = removeWrapper(bodyText, prefix);
-				});
-				[
-					'NextResponse.json(',
-					'Response.json(',
-					'new NextResponse(',
-					'new Response(',
-					'new NextApiResponse(',
-				].forEach((prefix) => {
-					bodyText = removeNewWrapper(bodyText, prefix);
-				});
-				bodyText = stripReturnComma(bodyText);
-
-				info.handlerCode = bodyText.trim();
-				const captureLines = info.handlerCode.split('\n');
-				for (const line of captureLines) {
-					const dm = line.match(/const\s+([A-Za-z_$][\w$]*)\s*=\s*(?:await\s+)?[A-Za-z_$][\w$]*\.json\(\)/);
-					if (dm) {
-						info.bodyVariableName = dm[1];
-						break;
-					}
-				}
-			} else {
-				info.handlerCode = '';
-			}
+		const handlerNode = handlers.get(info.name as HttpMethod)?.node;
+		const reqName = handlerNode?.getParameters()[0]?.getName();
+		if (!handlerNode || !reqName) return;
 
-			if (info.inputType === 'unknown' && info.name !== 'GET') {
-				const bodyParams: string[] = [];
-				const lines = (info.handlerCode ?? '').split('\n');
-				const varNameMapping: Record<string, boolean> = {};
-				lines.forEach((line) => {
-					const directMatch = line.match(
-						/const\s+([A-Za-z_$][\w$]*)\s*=\s*(?:await\s+)?[A-Za-z_$][\w$]*\.json\(\)/,
-					);
-					if (directMatch) {
-						info.bodyVariableName = directMatch[1];
-						varNameMapping[directMatch[1]] = true;
-					}
-					const destructMatch = line.match(/const\s*{([^}]+)}\s*=\s*(?:await\s+)?[A-Za-z_$][\w$]*\.json\(\)/);
-					if (destructMatch) {
-						destructMatch[1].split(',').forEach((part) => {
-							const name = part.split(':')[0].trim();
-							if (name) bodyParams.push(name);
-						});
-					}
-				});
-				lines.forEach((line) => {
-					const destructVarMatch = line.match(/const\s*{([^}]+)}\s*=\s*([A-Za-z_$][\w$]*)/);
-					if (destructVarMatch && varNameMapping[destructVarMatch[2]]) {
-						destructVarMatch[1].split(',').forEach((part) => {
-							const name = part.split(':')[0].trim();
-							if (name) bodyParams.push(name);
-						});
-					}
-				});
-				info.bodyParams = Array.from(new Set(bodyParams));
+		const declarations = handlerNode.getDescendantsOfKind(SyntaxKind.VariableDeclaration);
+		const bodyVariables = new Set<string>();
+		const bodyParams: string[] = [];
+		declarations.forEach((declaration) => {
+			const initializer = declaration.getInitializer();
+			if (!initializer || !isJsonBodyRead(initializer, reqName)) return;
+			const nameNode = declaration.getNameNode();
+			if (Node.isIdentifier(nameNode)) bodyVariables.add(nameNode.getText());
+			else if (Node.isObjectBindingPattern(nameNode)) bodyParams.push(...getBoundKeys(nameNode));
+		});
+		declarations.forEach((declaration) => {
+			const nameNode = declaration.getNameNode();
+			const initializer = declaration.getInitializer();
+			if (Node.isObjectBindingPattern(nameNode) && Node.isIdentifier(initializer) && bodyVariables.has(initializer.getText())) {
+				bodyParams.push(...getBoundKeys(nameNode));
 			}
+		});
 
-			const topLevel = sourceFile.getStatements();
-			const usedDecls: string[] = [];
-			const methodNames = methods.map((m) => m.name);
-			topLevel.forEach((stmt) => {
-				if (stmt.getKind() === SyntaxKind.ImportDeclaration || stmt.getKind() === SyntaxKind.ExportDeclaration)
-					return;
-				if (stmt.getKind() === SyntaxKind.VariableStatement) {
-					const varStmt = stmt.asKind(SyntaxKind.VariableStatement)!;
-					const declNames = varStmt.getDeclarations().map((d) => d.getName());
-					if (declNames.some((n) => methodNames.includes(n))) return;
-					if (declNames.some((n) => (info.handlerCode ?? '').includes(n))) usedDecls.push(varStmt.getText());
-					return;
-				}
-				if (stmt.getKind() === SyntaxKind.FunctionDeclaration) {
-					const fnDecl = stmt.asKind(SyntaxKind.FunctionDeclaration)!;
-					const name = fnDecl.getName();
-					if (!name || methodNames.includes(name)) return;
-					if ((info.handlerCode ?? '').includes(name)) usedDecls.push(fnDecl.getText());
-					return;
-				}
-			});
-			if (usedDecls.length) {
-				const schemaDecls = topLevel
-					.filter(stmt => stmt.getKind() === SyntaxKind.VariableStatement)
-					.filter(stmt => {
-						const text = stmt.asKind(SyntaxKind.VariableStatement)!.getText();
-						return /^\s*const\s+\w+\s*=\s*z\.object/.test(text);
-					})
-					.map(stmt => stmt.asKind(SyntaxKind.VariableStatement)!.getText());
-
-				const allDecls = Array.from(new Set([...schemaDecls, ...usedDecls]));
-				info.handlerCode = allDecls.join('\n') + '\n' + (info.handlerCode ?? '');
-			}
-		}
+		info.bodyVariableName = bodyVariables.values().next().value;
+		if (info.inputType === 'unknown' && !isBodilessMethod(info.name)) info.bodyParams = Array.from(new Set(bodyParams));
 	});
 }
 
 /**
- * Processes a single route.ts file, extracting methods, imports, types, and handler code.
+ * Processes a single route file, extracting methods, imports, types, and how handlers read their bodies.
  * @param project - The project instance
  * @param routeFile - The route file to process
  * @param node - The node to process
+ * @param diagnostics - Collects problems found while parsing
  */
-async function processRouteFile(project: Project, routeFile: string, node: RouteNode): Promise<void> {
+async function processRouteFile(
+	project: Project,
+	routeFile: string,
+	node: RouteNode,
+	diagnostics: GeneratorDiagnostic[],
+): Promise<void> {
 	try {
 		await fs.promises.access(routeFile);
 	} catch {
 		return;
 	}
-	const content = await fs.promises.readFile(routeFile, 'utf8');
-	const methodsMap = extractMethodsWithRegex(content);
-	node.methods = Array.from(methodsMap.values());
-
-	if (node.methods.length > 0) {
-		const sourceFile = project.getSourceFileOrThrow(routeFile);
-		node.imports = extractImportsFromSourceFile(sourceFile);
-		refineMethodTypes(sourceFile, node.methods);
-		extractAndProcessHandlerCode(sourceFile, node.methods);
+	const sourceFile = project.getSourceFile(routeFile) ?? project.addSourceFileAtPath(routeFile);
+	const handlers = resolveRouteHandlers(sourceFile);
+	node.methods = Array.from(handlers, ([name, handler]) => ({
+		name,
+		routeFile,
+		hook: getHookKind(name, handler.node),
+		policy: getRequestPolicy(handler.node),
+		returnType: 'unknown',
+		inputType: 'unknown',
+	}));
+
+	if (node.methods.length === 0) {
+		diagnostics.push({ severity: 'warning', message: 'No route handlers found', file: routeFile });
+	} else {
+		node.imports = collectHandlerImports(sourceFile, handlers);
+		// an endpoint whose pagination contract can't be determined is left out rather than generated with a guessed one
+		node.methods = node.methods.filter((method) => {
+			if (method.hook !== 'infinite') return true;
+			const pagination = determinePagination(handlers.get(method.name as HttpMethod)?.node, method.name);
+			if (typeof pagination !== 'string') {
+				method.pagination = pagination;
+				return true;
+			}
+			diagnostics.push({
+				severity: 'error',
+				message:
+					`${method.name} uses 'use infinite' but ${pagination}, so it is left out of the SDKs; ` +
+					'declare its pagination with an `export type Infinite = InfiniteContract<...>`',
+				file: routeFile,
+			});
+			return false;
+		});
+		refineMethodTypes(node.methods, handlers);
+		node.methods.forEach((method) => {
+			if (method.responseKind !== 'redirect' || method.name === 'GET' || getRedirectTarget(method) !== undefined) return;
+			diagnostics.push({
+				severity: 'warning',
+				message: `${method.name} computes its redirect target, which browsers hide from scripts, so client calls fail with a TypeError; redirect to a literal URL or from a GET handler`,
+				file: routeFile,
+			});
+		});
+		detectJsonBodyReads(node.methods, handlers);
 	}
 }
 
+/**
+ * Merges a child node's methods and children into a parent node, reporting key collisions.
+ * @param parent - The node to merge into
+ * @param child - The node to merge
+ * @param dir - The directory of the merged node, for diagnostics
+ * @param diagnostics - Collects problems found while parsing
+ */
+function mergeRouteNode(parent: RouteNode, child: RouteNode, dir: string, diagnostics: GeneratorDiagnostic[]): void {
+	child.methods.forEach((method) => {
+		if (parent.methods.some((m) => m.name === method.name)) {
+			diagnostics.push({ severity: 'warning', message: `Duplicate ${method.name} handler for the same URL`, file: dir });
+		}
+	});
+	parent.methods.push(...child.methods);
+	setRouteChildren(parent, child.children, dir, diagnostics);
+}
+
+/**
+ * Adds children to a node, reporting keys that are already taken.
+ * @param parent - The node to add the children to
+ * @param children - The children to add, by key
+ * @param dir - The directory the children come from, for diagnostics
+ * @param diagnostics - Collects problems found while parsing
+ */
+function setRouteChildren(
+	parent: RouteNode,
+	children: Record<string, RouteNode>,
+	dir: string,
+	diagnostics: GeneratorDiagnostic[],
+): void {
+	Object.entries(children).forEach(([key, child]) => {
+		if (parent.children[key]) {
+			diagnostics.push({ severity: 'warning', message: `Route key "${key}" is defined more than once`, file: dir });
+		}
+		parent.children[key] = child;
+	});
+}
+
+/**
+ * Checks whether a directory contains a route file at any depth.
+ * @param dir - The directory to search
+ * @returns True if a route file exists under the directory
+ */
+async function containsRouteFile(dir: string): Promise<boolean> {
+	const entries = await fs.promises.readdir(dir, { recursive: true });
+	return entries.some((entry) => isRouteFile(entry.toString()));
+}
+
 /**
  * Recursively processes child directories to build the route tree structure.
+ * Route groups and parallel route slots are merged into the parent, private folders are skipped, and the
+ * top-level `api` folder has its children flattened into the root while keeping `/api` in their URLs, unless one
+ * of them clashes with a top-level route.
  * @param project - The project instance
  * @param dir - The directory to process
  * @param node - The node to process
+ * @param diagnostics - Collects problems found while parsing
  */
-async function processChildDirectories(project: Project, dir: string, node: RouteNode): Promise<void> {
+async function processChildDirectories(
+	project: Project,
+	dir: string,
+	node: RouteNode,
+	diagnostics: GeneratorDiagnostic[],
+): Promise<void> {
 	const entries = await fs.promises.readdir(dir, { withFileTypes: true });
-	const tasks: Promise<void>[] = [];
-	for (const entry of entries) {
-		if (!entry.isDirectory() || entry.name.startsWith('.')) continue;
-		tasks.push(
-			(async () => {
-				const childDir = path.join(dir, entry.name);
-				const childSegment = entry.name;
-
-				if (childSegment.toLowerCase() === 'api') {
-					const apiNode = await parseRoutes(project, childDir);
-					node.methods.push(...apiNode.methods);
-					Object.assign(node.children, apiNode.children);
-					return;
-				}
+	const directories = entries
+		.filter((entry) => entry.isDirectory() && !entry.name.startsWith('.'))
+		.sort((a, b) => a.name.localeCompare(b.name));
 
-				if (childSegment.startsWith('(') && childSegment.endsWith(')')) {
-					const groupNode = await parseRoutes(project, childDir);
-					node.methods.push(...groupNode.methods);
-					Object.assign(node.children, groupNode.children);
-					return;
-				}
+	const results = await Promise.all(
+		directories.map(async (entry) => {
+			const childDir = path.join(dir, entry.name);
+			const info = classifySegment(entry.name);
 
-				const childNode = await parseRoutes(project, childDir);
-				childNode.segment = childSegment;
+			if (info.kind === 'private') return undefined;
 
-				let key: string;
-				if (childSegment.startsWith('[...') && childSegment.endsWith(']')) {
-					key = childSegment.slice(4, -1);
-				} else if (childSegment.startsWith('[') && childSegment.endsWith(']')) {
-					key = childSegment.slice(1, -1);
-				} else {
-					key = childSegment;
+			if (info.kind === 'intercepting') {
+				// Intercepting routes only apply to client-side navigations; a fetch to the intercepted URL is
+				// always served by the original route, which the SDK already exposes.
+				if (await containsRouteFile(childDir)) {
+					diagnostics.push({
+						severity: 'warning',
+						message: 'Skipping route handlers in an intercepting route folder',
+						file: childDir,
+					});
 				}
+				return undefined;
+			}
 
-				node.children[key] = childNode;
-			})()
-		);
-	}
-	await Promise.all(tasks);
+			if (isTransparentSegment(info.kind)) {
+				return { entry, info, childDir, childNode: await parseRoutes(project, childDir, diagnostics, node.routePath) };
+			}
+
+			const childNode = await parseRoutes(project, childDir, diagnostics, [...node.routePath, entry.name]);
+			childNode.segment = entry.name;
+			return { entry, info, childDir, childNode };
+		}),
+	);
+
+	const isApiFolder = (info: SegmentInfo): boolean =>
+		info.kind === 'static' && info.key.toLowerCase() === 'api' && node.routePath.length === 0;
+	// the api folder is flattened last, once every key it could clash with is known
+	const ordered = results.filter((result) => result && !isApiFolder(result.info));
+	ordered.push(...results.filter((result) => result && isApiFolder(result.info)));
+
+	ordered.forEach((result) => {
+		if (!result) return;
+		const { info, childDir, childNode } = result;
+
+		if (isTransparentSegment(info.kind)) {
+			mergeRouteNode(node, childNode, childDir, diagnostics);
+			return;
+		}
+
+		if (isApiFolder(info)) {
+			const clashes = Object.keys(childNode.children).filter((key) => key in node.children);
+			if (clashes.length === 0) {
+				setRouteChildren(node, childNode.children, childDir, diagnostics);
+				childNode.children = {};
+				if (childNode.methods.length === 0) return;
+			} else {
+				diagnostics.push({
+					severity: 'warning',
+					message: `Routes under the api folder clash with top-level routes (${clashes.join(', ')}), so they are kept under their own key`,
+					file: childDir,
+				});
+			}
+		}
+
+		setRouteChildren(node, { [info.key]: childNode }, childDir, diagnostics);
+	});
 }
 
 /**
  * Parses the routes from the given directory, recursively building a tree.
  * @param project - The project instance
  * @param dir - The directory to parse the routes from
+ * @param diagnostics - Collects problems found while parsing
+ * @param routePath - The URL-bearing folder names leading to the directory
  * @returns The parsed routes root node for the given directory
  */
-export async function parseRoutes(project: Project, dir: string): Promise<RouteNode> {
+export async function parseRoutes(
+	project: Project,
+	dir: string,
+	diagnostics: GeneratorDiagnostic[] = [],
+	routePath: string[] = [],
+): Promise<RouteNode> {
 	const node: RouteNode = {
 		segment: path.basename(dir),
+		routePath,
 		methods: [],
 		children: {},
 	};
 
-	const routeFile = path.join(dir, 'route.ts');
-	await processRouteFile(project, routeFile, node);
-	await processChildDirectories(project, dir, node);
+	const routeFiles = ROUTE_FILE_NAMES.map((name) => path.join(dir, name)).filter((file) => fs.existsSync(file));
+	if (routeFiles.length > 1) {
+		diagnostics.push({
+			severity: 'warning',
+			message: `Multiple route files found, using ${path.basename(routeFiles[0])}`,
+			file: dir,
+		});
+	}
+	if (routeFiles.length > 0) await processRouteFile(project, routeFiles[0], node, diagnostics);
+	await processChildDirectories(project, dir, node, diagnostics);
 
 	return node;
 }
+
+/**
+ * Re-parses only the part of the route tree affected by a change in the given directory.
+ * Changes that could move routes between keys (route groups at the root, the top-level `api` folder and
+ * top-level routes it could clash with) fall back to parsing the whole tree.
+ * @param project - The project instance
+ * @param appDir - The app directory the tree was parsed from
+ * @param tree - The current route tree, updated in place
+ * @param changedDir - The directory containing the changed route file
+ * @param diagnostics - Collects problems found while parsing
+ * @returns The updated route tree
+ */
+export async function updateRoutes(
+	project: Project,
+	appDir: string,
+	tree: RouteNode,
+	changedDir: string,
+	diagnostics: GeneratorDiagnostic[] = [],
+): Promise<RouteNode> {
+	const parts = path.relative(appDir, changedDir).split(path.sep).filter(Boolean);
+	const infos = parts.map(classifySegment);
+
+	if (infos.some((info) => info.kind === 'private' || info.kind === 'intercepting')) return tree;
+
+	const lastUrlIndex = infos.map((info) => isTransparentSegment(info.kind)).lastIndexOf(false);
+	const urlInfos = infos.filter((info) => !isTransparentSegment(info.kind));
+	// a top-level route appearing or disappearing can change whether the api folder clashes with it
+	const mayClashWithApi =
+		urlInfos.length === 1 && fs.existsSync(path.join(appDir, 'api', parts[lastUrlIndex]));
+	if (lastUrlIndex < 0 || urlInfos[0].key.toLowerCase() === 'api' || mayClashWithApi) {
+		return parseRoutes(project, appDir, diagnostics);
+	}
+
+	let parentNode = tree;
+	for (const info of urlInfos.slice(0, -1)) {
+		parentNode = parentNode.children[info.key];
+		if (!parentNode) return parseRoutes(project, appDir, diagnostics);
+	}
+
+	const targetDir = path.join(appDir, ...parts.slice(0, lastUrlIndex + 1));
+	const lastInfo = urlInfos[urlInfos.length - 1];
+	if (!fs.existsSync(targetDir)) {
+		delete parentNode.children[lastInfo.key];
+		return tree;
+	}
+
+	const routePath = parts.filter((_, i) => !isTransparentSegment(infos[i].kind));
+	const newNode = await parseRoutes(project, targetDir, diagnostics, routePath);
+	if (newNode.methods.length === 0 && Object.keys(newNode.children).length === 0) {
+		delete parentNode.children[lastInfo.key];
+	} else {
+		parentNode.children[lastInfo.key] = newNode;
+	}
+	return tree;
+}
@@ -0,0 +1,73 @@
+import type { RouteNode } from './types.ts';
+import { classifySegment } from './segments.ts';
+
+/**
+ * Represents a single route method as listed by the `routes` command.
+ */
+export interface RouteTableRow {
+	path: string;
+	method: string;
+	hook: string;
+	inputType: string;
+	returnType: string;
+}
+
+/**
+ * Flattens a route tree into one row per route method.
+ * @param node - The route node to flatten.
+ * @returns The route rows, in tree order.
+ */
+export function listRoutes(node: RouteNode): RouteTableRow[] {
+	const routePath = '/' + node.routePath.map((seg) => classifySegment(seg).urlSegment).join('/');
+	const rows: RouteTableRow[] = node.methods.map((methodInfo) => ({
+		path: routePath,
+		method: methodInfo.name,
+		hook: methodInfo.hook,
+		inputType: methodInfo.inputType,
+		returnType: methodInfo.returnType,
+	}));
+
+	Object.values(node.children).forEach((child) => {
+		rows.push(...listRoutes(child));
+	});
+	return rows;
+}
+
+/**
+ * Strips import qualifiers from a type string, collapses it onto a single line and truncates it to a maximum width.
+ * @param type - The type string.
+ * @param maxWidth - The maximum width of the column.
+ * @returns The single-line type string.
+ */
+const compactType = (type: string, maxWidth: number): string => {
+	const singleLine = type
+		.replace(/import\((?:'[^']+'|"[^"]+")\)\./g, '')
+		.replace(/\s+/g, ' ')
+		.trim();
+	return singleLine.length > maxWidth ? singleLine.slice(0, maxWidth - 1) + '…' : singleLine;
+};
+
+/**
+ * Formats route rows as a plain-text table.
+ * @param rows - The route rows.
+ * @param maxTypeWidth - The maximum width of the input and output type columns.
+ * @returns The table, one line per row plus a header.
+ */
+export function formatRouteTable(rows: RouteTableRow[], maxTypeWidth: number = 60): string {
+	const header = ['ROUTE', 'METHOD', 'HOOK', 'INPUT', 'OUTPUT'];
+	const cells = rows.map((row) => [
+		row.path,
+		row.method,
+		row.hook,
+		compactType(row.inputType, maxTypeWidth),
+		compactType(row.returnType, maxTypeWidth),
+	]);
+	const widths = header.map((title, i) => Math.max(title.length, ...cells.map((cell) => cell[i].length)));
+	const formatLine = (cell: string[]) =>
+		cell
+			.map((value, i) => value.padEnd(widths[i]))
+			.join('  ')
+			.trimEnd();
+
+	return [formatLine(header), formatLine(widths.map((w) => '-'.repeat(w))), ...cells.map(formatLine)].join('\n');
+}
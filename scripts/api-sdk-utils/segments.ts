@@ -0,0 +1,149 @@
+/**
+ * The App Router folder conventions a route segment can follow.
+ * - `static`: `users`, or `%5Fusers` for a literal leading underscore
+ * - `dynamic`: `[postId]`
+ * - `catchAll`: `[...slug]`
+ * - `optionalCatchAll`: `[[...slug]]`
+ * - `group`: `(marketing)`, omitted from the URL
+ * - `slot`: `@modal`, a parallel route slot, omitted from the URL
+ * - `intercepting`: `(.)photo`, `(..)photo`, `(..)(..)photo`, `(...)photo`
+ * - `private`: `_components`, excluded from routing
+ */
+export type SegmentKind =
+	| 'static'
+	| 'dynamic'
+	| 'catchAll'
+	| 'optionalCatchAll'
+	| 'group'
+	| 'slot'
+	| 'intercepting'
+	| 'private';
+
+/**
+ * Represents a classified route folder name.
+ */
+export interface SegmentInfo {
+	kind: SegmentKind;
+	/** The key used in the route tree: the param name for dynamic segments, the URL segment otherwise. */
+	key: string;
+	/** The segment as it appears in the route pattern, e.g. `users` or `[postId]`. Empty when omitted from the URL. */
+	urlSegment: string;
+}
+
+/**
+ * Classifies a folder name according to the App Router folder conventions.
+ * @param segment - The folder name.
+ * @returns The segment kind, its tree key and its URL segment.
+ */
+export function classifySegment(segment: string): SegmentInfo {
+	if (segment.startsWith('_')) return { kind: 'private', key: segment, urlSegment: '' };
+	if (/^%5F/i.test(segment)) {
+		const decoded = '_' + segment.slice(3);
+		return { kind: 'static', key: decoded, urlSegment: decoded };
+	}
+	if (/^(\(\.{1,3}\))+/.test(segment)) return { kind: 'intercepting', key: segment, urlSegment: '' };
+	if (segment.startsWith('(') && segment.endsWith(')')) return { kind: 'group', key: segment, urlSegment: '' };
+	if (segment.startsWith('@')) return { kind: 'slot', key: segment, urlSegment: '' };
+	if (segment.startsWith('[[...') && segment.endsWith(']]')) {
+		return { kind: 'optionalCatchAll', key: segment.slice(5, -2), urlSegment: segment };
+	}
+	if (segment.startsWith('[...') && segment.endsWith(']')) {
+		return { kind: 'catchAll', key: segment.slice(4, -1), urlSegment: segment };
+	}
+	if (segment.startsWith('[') && segment.endsWith(']')) {
+		return { kind: 'dynamic', key: segment.slice(1, -1), urlSegment: segment };
+	}
+	return { kind: 'static', key: segment, urlSegment: segment };
+}
+
+/**
+ * Whether a segment kind is a dynamic parameter, which the SDKs expose as a function.
+ * @param kind - The segment kind.
+ * @returns True for `[param]`, `[...param]` and `[[...param]]`.
+ */
+export const isParamSegment = (kind: SegmentKind): boolean =>
+	kind === 'dynamic' || kind === 'catchAll' || kind === 'optionalCatchAll';
+
+/**
+ * Whether a segment kind is omitted from the URL and merged into its parent.
+ * @param kind - The segment kind.
+ * @returns True for route groups and parallel route slots.
+ */
+export const isTransparentSegment = (kind: SegmentKind): boolean => kind === 'group' || kind === 'slot';
+
+/**
+ * Builds the template literal string for a route path.
+ * @param routePath - The URL-bearing folder names of the route, e.g. `['posts', '[postId]']`.
+ * @returns The path template literal string (e.g., `/posts/${postId}`).
+ */
+export function buildPathLiteral(routePath: string[]): string {
+	const parts = routePath.map((seg) => {
+		const info = classifySegment(seg);
+		switch (info.kind) {
+			case 'dynamic':
+				return '/${' + info.key + '}';
+			case 'catchAll':
+				return '/${' + info.key + '.join("/")}';
+			case 'optionalCatchAll':
+				return '${' + info.key + '?.length ? "/" + ' + info.key + '.join("/") : ""}';
+			default:
+				return '/' + info.urlSegment;
+		}
+	});
+	if (parts.length === 0) return '`/`';
+	// a root-level optional catch-all is the whole path, so it falls back to `/` rather than an empty string
+	if (!parts[0].startsWith('/')) parts[0] = parts[0].replace(/: ""}$/, ': "/"}');
+	return '`' + parts.join('') + '`';
+}
+
+/**
+ * Returns the parameter type the SDKs accept for a dynamic segment.
+ * @param kind - The segment kind.
+ * @returns The parameter signature suffix and type, e.g. `?: string[]`.
+ */
+export const getParamSignature = (kind: SegmentKind): string => {
+	if (kind === 'catchAll') return ': string[]';
+	if (kind === 'optionalCatchAll') return '?: string[]';
+	return ': string';
+};
+
+/**
+ * Builds the array literal string of the query key prefix for a route, one element per URL segment.
+ * @param routePath - The URL-bearing folder names of the route, e.g. `['posts', '[postId]']`.
+ * @returns The query key literal string (e.g., `['api', 'posts', postId]`).
+ */
+export function buildKeyLiteral(routePath: string[]): string {
+	const parts = routePath.map((seg) => {
+		const info = classifySegment(seg);
+		return isParamSegment(info.kind) ? info.key : JSON.stringify(info.urlSegment);
+	});
+	return `[${["'api'", ...parts].join(', ')}]`;
+}
+
+/**
+ * Builds the route pattern string for a route, as shown to client middleware.
+ * @param routePath - The URL-bearing folder names of the route, e.g. `['posts', '[postId]']`.
+ * @returns The route pattern (e.g., `/posts/[postId]`).
+ */
+export const buildRoutePattern = (routePath: string[]): string =>
+	'/' + routePath.map((seg) => classifySegment(seg).urlSegment).join('/');
+
+/**
+ * Builds the object literal string of the dynamic parameters of a route.
+ * @param routePath - The URL-bearing folder names of the route, e.g. `['posts', '[postId]']`.
+ * @returns The params object literal string (e.g., `{ postId }`).
+ */
+export function buildParamsLiteral(routePath: string[]): string {
+	const params = routePath.map((seg) => classifySegment(seg)).filter((info) => isParamSegment(info.kind));
+	return params.length === 0 ? '{}' : `{ ${params.map((info) => info.key).join(', ')} }`;
+}
+
+/**
+ * Builds the object type string of the dynamic parameters of a route, as listed in the middleware context.
+ * @param routePath - The URL-bearing folder names of the route, e.g. `['posts', '[postId]']`.
+ * @returns The params object type string (e.g., `{ postId: string }`).
+ */
+export function buildParamsType(routePath: string[]): string {
+	const params = routePath.map((seg) => classifySegment(seg)).filter((info) => isParamSegment(info.kind));
+	return params.length === 0 ? '{}' : `{ ${params.map((info) => `${info.key}${getParamSignature(info.kind)}`).join('; ')} }`;
+}
@@ -1,171 +1,111 @@
-import type { RouteNode, MethodInfo } from './types.ts';
+import type { RouteNode, MethodInfo, ServerCodeBuilderOptions } from './types.ts';
+import { formatKey } from './config.ts';
+import { classifySegment, isParamSegment, buildPathLiteral, buildParamsLiteral, getParamSignature } from './segments.ts';
+import { getRequestShape, buildResponseReader, getResultWrapper, getResolvedType, getStreamItemType } from './fetch-code-builder.ts';
 
-function createFunctionString(params: string, body: string): string {
-	return `(${params}) => tryCatchFunction(async () => {
-${body}
-})`;
+/**
+ * Builds the `callRoute` call that invokes a method's handler with a synthesized request.
+ * @param methodInfo - Information about the method.
+ * @param routePath - The URL-bearing folder names of the route.
+ * @param routeModule - The name the method's route file is imported as.
+ * @param url - The request URL expression.
+ * @param request - The expression of the per-call request overrides.
+ * @returns The `callRoute` call expression.
+ */
+function buildCallRouteCall(
+	methodInfo: MethodInfo,
+	routePath: string[],
+	routeModule: string,
+	url: string,
+	request: string = 'request',
+): string {
+	const { init } = getRequestShape(methodInfo);
+	return `callRoute(${routeModule}.${methodInfo.name}, { url: ${url}, init: ${init}, params: ${buildParamsLiteral(routePath)} }, ${request})`;
 }
 
 /**
- * Builds the code string for a single HTTP method handler within the SDK object.
+ * Builds the code string for a single HTTP method within the server SDK object. The method calls the route's
+ * exported handler in-process and decodes its response the way the fetch client decodes it over HTTP.
  * @param methodInfo - Information about the method.
- * @returns The code string for the method handler.
+ * @param routePath - The URL-bearing folder names of the route.
+ * @param options - The code builder options.
+ * @returns The code string for the method.
  */
-function buildMethodHandlerCode(methodInfo: MethodInfo): string {
+function buildServerMethodCode(methodInfo: MethodInfo, routePath: string[], options: ServerCodeBuilderOptions): string {
 	const methodName = methodInfo.name;
-	const isGet = methodName === 'GET';
-	const usesBody = !isGet && (
-		methodInfo.inputType !== 'unknown' ||
-		Boolean(methodInfo.bodyVariableName) ||
-		((methodInfo.bodyParams?.length ?? 0) > 0)
-	);
-	const inputType = methodInfo.inputType;
-
-	if (methodInfo.handlerCode?.includes('NextResponse.redirect')) {
-		const match = /NextResponse\.redirect\(\s*(['"])(.*?)\1/.exec(methodInfo.handlerCode);
-		const redirectUrl = match ? match[2] : '';
-		const optionsType = `{ searchParams?: Record<string, string> }`;
-		const paramsString = `{ searchParams }: ${optionsType} = {}`;
-		const bodyContent = `const url = 'http://localhost' + (searchParams ? '?' + new URLSearchParams(searchParams) : '');\nredirect('${redirectUrl}');`;
-		return `  ${methodName}: ${createFunctionString(paramsString, bodyContent)},`;
-	}
-
-	const handlerCode = methodInfo.handlerCode || '';
-	const handlerRawLines = handlerCode.split('\n');
-	const infiniteIndex = handlerRawLines.findIndex((line) => line.includes('use infinite'));
-	if (infiniteIndex >= 0) {
-		const rawLines = handlerRawLines.filter((line) =>
-			!line.includes('use infinite') &&
-			!line.includes('req.nextUrl') &&
-			!line.includes('await req.json()') &&
-			!/^\s*const \{\s*searchParams.*\}/.test(line) &&
-			!/^\s*const page =/.test(line)
+	const routeModule = options.routeModules.get(methodInfo.routeFile ?? '');
+	if (!routeModule) throw new Error(`No route module for the ${methodName} handler of /${routePath.join('/')}`);
+
+	const resolvedType = getResolvedType(methodInfo);
+	const pathLit = buildPathLiteral(routePath);
+	const { paramsSignature, queryString } = getRequestShape(methodInfo);
+	const callRouteCall = buildCallRouteCall(methodInfo, routePath, routeModule, `${pathLit} + ${queryString}`);
+	const params = `(${paramsSignature.slice(1, -1)}, request?: RouteRequestOptions)`;
+
+	if (methodInfo.stream) {
+		// the handler is called by a callback, so an event stream can call it again with Last-Event-ID
+		const { format, eventType } = methodInfo.stream;
+		const streamOptions = format === 'events' ? `{ events: true, json: ${eventType !== 'string'} }` : '{}';
+		return (
+			`${methodName}: ${params} => ` +
+			`tryCatchFunction(() => openStream<${getStreamItemType(methodInfo)}>((request) => ${callRouteCall}, request, ${streamOptions})),`
 		);
-
-		const infiniteParams = usesBody
-			? `{ body, searchParams }: { body: ${inputType}; searchParams?: Record<string, string> }, pageParam: number = 1`
-			: `{ searchParams }: { searchParams?: Record<string, string> }, pageParam: number = 1`;
-
-		const infiniteBodyLines: string[] = [];
-		infiniteBodyLines.push('  const page = pageParam;');
-		rawLines.forEach((l) => infiniteBodyLines.push('  ' + l));
-		const infiniteBody = infiniteBodyLines.join('\n');
-		return `  ${methodName}: ${createFunctionString(infiniteParams, infiniteBody)},`;
-	}
-
-	const mutationIndex = handlerRawLines.findIndex((line) => line.includes('use mutation'));
-	if (mutationIndex >= 0) handlerRawLines.splice(mutationIndex, 1);
-	let codeLines = handlerRawLines;
-	if (methodName !== 'GET') {
-		codeLines = codeLines.filter((line) => !line.includes('.json('));
 	}
 
-	const paramName = methodInfo.paramName || 'req';
-	const usesSearchParams = codeLines.some(
-		(line) => line.includes('searchParams') || line.includes(`${paramName}.nextUrl`)
-	);
-	const hasHeaderUsage = codeLines.some((line) => line.includes(`${paramName}.headers`));
-	const hasCookieUsage = codeLines.some((line) => line.includes(`${paramName}.cookies`));
-
-	const optionProps: string[] = [];
-	if (usesBody) optionProps.push(`body: ${inputType}`);
-	if (usesSearchParams) optionProps.push('searchParams?: Record<string, string>');
-	const optionsType = `{ ${optionProps.join('; ')} }`;
-	const propNames = optionProps.map(p => p.split(':')[0].replace('?','').trim());
-	if (usesBody) {
-		const aliasVar = methodInfo.bodyVariableName;
-		if (aliasVar && aliasVar !== 'body') {
-			propNames[0] = `body: ${aliasVar}`;
-		} else {
-			propNames[0] = 'body';
-		}
-	}
-	const destructParams = propNames.join(', ');
-	const paramsString = optionProps.length > 0 ? `{ ${destructParams} }: ${optionsType}` : '';
-
-	const bodyLines: string[] = [];
-	if (usesSearchParams) {
-		bodyLines.push(
-			`const ${paramName}: any = { url: 'http://localhost' + (searchParams ? '?' + new URLSearchParams(searchParams) : ''), nextUrl: { searchParams: new URLSearchParams(searchParams) } }` +
-			`;`
+	const wrapper = getResultWrapper(methodInfo);
+	if (methodInfo.responseKind === 'redirect') {
+		// the page being rendered follows the redirect with next/navigation, outside of the Result so Next.js receives it
+		const redirectParams = `(${paramsSignature.slice(1, -1)}, options?: RedirectOptions & RouteRequestOptions)`;
+		const redirectCall = buildCallRouteCall(methodInfo, routePath, routeModule, `${pathLit} + ${queryString}`, 'options');
+		return (
+			`${methodName}: ${redirectParams} => ` +
+			`${wrapper}((): Promise<${resolvedType}> => ${redirectCall}.then(${buildResponseReader(methodInfo)}))` +
+			`.then(async (result) => { if (result.data && options?.followRedirect !== false) await redirectTo(result.data, options?.replace); return result; }),`
 		);
 	}
-	if (hasHeaderUsage) bodyLines.push('const headersVal = await nextHeaders();');
-	if (hasCookieUsage) bodyLines.push('const cookiesVal = await nextCookies();');
-
-	codeLines.forEach((line) => {
-		let replaced = line;
-		if (hasHeaderUsage) replaced = replaced.replace(new RegExp(`${paramName}\\.headers`, 'g'), 'headersVal');
-		if (hasCookieUsage) replaced = replaced.replace(new RegExp(`${paramName}\\.cookies`, 'g'), 'cookiesVal');
-		bodyLines.push(replaced);
-	});
-	const indentedBody = bodyLines.map((l) => '  ' + l).join('\n');
 
-	return `  ${methodName}: ${createFunctionString(paramsString, indentedBody)},`;
-}
-
-/**
- * Builds the code string for a child route within the SDK object.
- * @param key - The key of the child route.
- * @param child - The child route node.
- * @param segments - The path segments.
- * @param depth - The depth of the child route.
- */
-function buildChildRouteCode(key: string, child: RouteNode, segments: string[], depth: number): string {
-	const lines: string[] = [];
-	if (child.segment.startsWith('[...') && child.segment.endsWith(']')) {
-		const param = child.segment.slice(4, -1);
-		const type = 'string[]';
-		const rawChildCode = buildServerObjectCode(child, [...segments, child.segment], depth + 1);
-		const replacedChildCode = rawChildCode.replace(
-			new RegExp(`(?:\\(await params\\)|params)\\.${param}`, 'g'),
-			param,
-		);
-		const innerLines = replacedChildCode
-			.split('\n')
-			.slice(1, -1)
-			.filter((line) => !line.includes(`const ${param} = ${param}`));
-		lines.push(`${key.toUpperCase()}: (${param}: ${type}) => ({`);
-		innerLines.forEach((line) => lines.push(line));
-		lines.push(`}),`);
-	} else if (child.segment.startsWith('[') && child.segment.endsWith(']')) {
-		const param = child.segment.slice(1, -1);
-		const type = 'string';
-		const rawChildCode = buildServerObjectCode(child, [...segments, child.segment], depth + 1);
-		const replacedChildCode = rawChildCode.replace(
-			new RegExp(`(?:\\(await params\\)|params)\\.${param}`, 'g'),
-			param,
+	if (methodInfo.pagination) {
+		// the cursor is sent with the rest of the query, and left out when undefined
+		const { param, cursorType, initialCursor } = methodInfo.pagination;
+		const queryName = methodInfo.queryType ? 'query' : 'searchParams';
+		const pageUrl = `${pathLit} + '?' + toSearchParams({ ...${queryName}, ${JSON.stringify(param)}: pageParam })`;
+		const pageParam = initialCursor === 'undefined' ? `pageParam?: ${cursorType}` : `pageParam: ${cursorType} = ${initialCursor}`;
+		return (
+			`${methodName}: (${paramsSignature.slice(1, -1)}, ${pageParam}, request?: RouteRequestOptions) => ` +
+			`${wrapper}((): Promise<${resolvedType}> => ${buildCallRouteCall(methodInfo, routePath, routeModule, pageUrl)}.then(${buildResponseReader(methodInfo)})),`
 		);
-		const innerLines = replacedChildCode
-			.split('\n')
-			.slice(1, -1)
-			.filter((line) => !line.includes(`const ${param} = ${param}`));
-		lines.push(`${key.toUpperCase()}: (${param}: ${type}) => ({`);
-		innerLines.forEach((line) => lines.push(line));
-		lines.push(`}),`);
-	} else {
-		const childCode = buildServerObjectCode(child, [...segments, child.segment], depth + 1);
-		lines.push(`  ${key.toUpperCase()}: ${childCode},`);
 	}
-	return lines.join('\n');
+
+	return (
+		`${methodName}: ${params} => ` +
+		`${wrapper}((): Promise<${resolvedType}> => ${callRouteCall}.then(${buildResponseReader(methodInfo)})),`
+	);
 }
 
 /**
- * Builds the code string for the entire SDK object.
- * @param node - The root route node.
- * @param segments - The path segments.
- * @param depth - The depth of the root node.
- * @returns The code string for the SDK object.
+ * Builds the server SDK object code recursively for the given route node. Every method calls the route's handler
+ * with the headers and cookies of the request being rendered and returns a `Result`, like the fetch client.
+ * @param node - The route node to build the code for.
+ * @param options - The code builder options.
+ * @param depth - The depth of this route.
+ * @returns The server SDK object code string for the given route node.
  */
-export function buildServerObjectCode(node: RouteNode, segments: string[] = [], depth: number = 1): string {
+export function buildServerObjectCode(node: RouteNode, options: ServerCodeBuilderOptions, depth: number = 1): string {
 	const lines: string[] = ['{'];
 
 	node.methods.forEach((methodInfo: MethodInfo) => {
-		lines.push(buildMethodHandlerCode(methodInfo));
+		lines.push(buildServerMethodCode(methodInfo, node.routePath, options));
 	});
 
 	Object.entries(node.children).forEach(([key, child]) => {
-		lines.push(buildChildRouteCode(key, child, segments, depth));
+		const { kind, key: param } = classifySegment(child.segment);
+		const childCode = buildServerObjectCode(child, options, depth + 1);
+		if (isParamSegment(kind)) {
+			const innerLines = childCode.split('\n').slice(1, -1);
+			lines.push(`${formatKey(key, options.keyCasing)}: (${param}${getParamSignature(kind)}) => ({`, ...innerLines, `}),`);
+		} else {
+			lines.push(`${formatKey(key, options.keyCasing)}: ${childCode},`);
+		}
 	});
 
 	lines.push('}');
@@ -1,13 +1,15 @@
-import { SyntaxKind } from 'ts-morph';
-import type { SourceFile, FunctionDeclaration, ArrowFunction, Signature, CallExpression, BinaryExpression, PrefixUnaryExpression } from 'ts-morph';
-import type { MethodInfo } from './types.ts';
+import { Node, SyntaxKind } from 'ts-morph';
+import type { CallExpression, BinaryExpression, PrefixUnaryExpression, Expression } from 'ts-morph';
+import type { MethodInfo, ResponseInfo, ResponseKind, RedirectInfo, PaginationInfo, StreamInfo } from './types.ts';
+import { isBodilessMethod } from './handler-resolver.ts';
+import type { HandlerFunction, HttpMethod, RouteHandler } from './handler-resolver.ts';
 
 /**
  * Determines the input type for a method, looking for Zod schema usage.
  * @param handlerNode - The handler node
  * @returns The input type
  */
-export function determineInputType(handlerNode: FunctionDeclaration | ArrowFunction | undefined): string {
+export function determineInputType(handlerNode: HandlerFunction | undefined): string {
     if (!handlerNode) return 'unknown';
 
     const params = handlerNode.getParameters();
@@ -75,6 +77,15 @@ export function determineInputType(handlerNode: FunctionDeclaration | ArrowFunct
         }
     }
 
+    // an explicit annotation on the body variable, either a TS type or a JSDoc `@type` tag in a JS route file
+    for (const varDecl of handlerNode.getDescendantsOfKind(SyntaxKind.VariableDeclaration)) {
+        if (!bodyVars.has(varDecl.getName())) continue;
+        const declaredType = varDecl.getType();
+        if (!declaredType.isAny() && !declaredType.isUnknown()) {
+            return declaredType.getText();
+        }
+    }
+
     if (bodyVars.size > 0) {
         const props = new Set<string>();
         handlerNode.getDescendantsOfKind(SyntaxKind.PropertyAccessExpression).forEach((paeNode) => {
@@ -241,27 +252,249 @@ export function determineInputType(handlerNode: FunctionDeclaration | ArrowFunct
 }
 
 /**
- * Determines the return type for a method, handling Promises and Response wrappers.
- * @param sourceFile - The source file containing the method
- * @param info - The method info
- * @param handlerNode - The handler node
- * @returns The return type
+ * Represents the query parameters a handler reads, as a type literal string.
  */
-export function determineReturnType(
-    sourceFile: SourceFile,
-    info: MethodInfo,
-    handlerNode: FunctionDeclaration | ArrowFunction | undefined
-): string {
-    let sig: Signature | undefined;
-    const varDecl = sourceFile.getVariableDeclaration(info.name);
-
-    if (varDecl) {
-        const arrow = varDecl.getInitializerIfKind(SyntaxKind.ArrowFunction);
-        if (arrow) sig = arrow.getType().getCallSignatures()[0];
+export interface QueryTypeInfo {
+    type: string;
+    /** Whether at least one key must be present. */
+    required: boolean;
+}
+
+/**
+ * Formats a query key as a property name, quoting it when it is not a valid identifier.
+ * @param key - The query key
+ * @returns The property name
+ */
+const formatPropertyName = (key: string): string => (/^[A-Za-z_$][\w$]*$/.test(key) ? key : JSON.stringify(key));
+
+/**
+ * Checks whether an if statement returns or throws when the given expression is missing,
+ * e.g. `if (!formId) return NextResponse.json(..., { status: 400 })`.
+ * @param condition - The if statement condition
+ * @param target - The text of the guarded expression
+ * @returns True if the condition tests the expression for absence
+ */
+const testsForAbsence = (condition: Expression, target: string): boolean => {
+    if (condition.isKind(SyntaxKind.ParenthesizedExpression)) return testsForAbsence(condition.getExpression(), target);
+    if (condition.isKind(SyntaxKind.PrefixUnaryExpression)) {
+        const unary = condition.asKind(SyntaxKind.PrefixUnaryExpression)!;
+        if (unary.getOperatorToken() !== SyntaxKind.ExclamationToken) return false;
+        // `!(file instanceof File)` bails out when the value is missing as well as when it has the wrong type
+        const instanceCheck = unary.getOperand().asKind(SyntaxKind.ParenthesizedExpression)?.getExpression().asKind(SyntaxKind.BinaryExpression);
+        if (instanceCheck?.getOperatorToken().getKind() === SyntaxKind.InstanceOfKeyword) {
+            return instanceCheck.getLeft().getText() === target;
+        }
+        return unary.getOperand().getText() === target;
     }
-    if (!sig && handlerNode?.isKind(SyntaxKind.FunctionDeclaration)) {
-        sig = handlerNode.getSignature();
+    if (condition.isKind(SyntaxKind.BinaryExpression)) {
+        const bin = condition.asKind(SyntaxKind.BinaryExpression)!;
+        const op = bin.getOperatorToken().getText();
+        if (op === '||') return testsForAbsence(bin.getLeft(), target) || testsForAbsence(bin.getRight(), target);
+        if (['==', '==='].includes(op)) {
+            const sides = [bin.getLeft().getText(), bin.getRight().getText()];
+            return sides.includes(target) && sides.some((side) => side === 'null' || side === 'undefined');
+        }
     }
+    return false;
+};
+
+/**
+ * Builds a predicate telling whether a handler bails out (returns or throws) when an expression is missing.
+ * @param handlerNode - The handler node
+ * @returns The predicate, taking the text of the expression
+ */
+const getGuardCheck = (handlerNode: HandlerFunction): ((target: string) => boolean) => {
+    const ifConditions = handlerNode.getDescendantsOfKind(SyntaxKind.IfStatement).filter((ifStmt) => {
+        const thenStmt = ifStmt.getThenStatement();
+        return [SyntaxKind.ReturnStatement, SyntaxKind.ThrowStatement].some(
+            (kind) => thenStmt.getKind() === kind || thenStmt.getDescendantsOfKind(kind).length > 0,
+        );
+    }).map((ifStmt) => ifStmt.getExpression());
+    return (target: string) => ifConditions.some((condition) => testsForAbsence(condition, target));
+};
+
+/**
+ * Builds a predicate matching the expressions a handler reads its search params from: `req.nextUrl.searchParams`,
+ * `new URL(req.url).searchParams` and the variables holding either.
+ * @param handlerNode - The handler node
+ * @param reqName - The name of the handler's request parameter
+ * @returns The predicate
+ */
+const getSearchParamsMatcher = (handlerNode: HandlerFunction, reqName: string): ((expr: Node) => boolean) => {
+    const urlSources = [`${reqName}.nextUrl`, `new URL(${reqName}.url)`];
+    const searchParamsVars = new Set<string>();
+    handlerNode.getDescendantsOfKind(SyntaxKind.VariableDeclaration).forEach((varDecl) => {
+        const initText = varDecl.getInitializer()?.getText();
+        if (!initText) return;
+        const nameNode = varDecl.getNameNode();
+        if (Node.isIdentifier(nameNode) && urlSources.some((source) => initText === `${source}.searchParams`)) {
+            searchParamsVars.add(nameNode.getText());
+        } else if (Node.isObjectBindingPattern(nameNode) && urlSources.includes(initText)) {
+            nameNode.getElements().forEach((element) => {
+                const propertyName = element.getPropertyNameNode()?.getText() ?? element.getName();
+                if (propertyName === 'searchParams') searchParamsVars.add(element.getName());
+            });
+        }
+    });
+    return (expr: Node): boolean => {
+        const text = expr.getText();
+        return searchParamsVars.has(text) || urlSources.some((source) => text === `${source}.searchParams`);
+    };
+};
+
+/**
+ * Determines the query parameters a handler reads from `req.nextUrl.searchParams` (or `new URL(req.url).searchParams`).
+ * A schema parsing `Object.fromEntries(searchParams)` gives the query its schema's type. Otherwise the keys are
+ * collected from `get`, `getAll` and `has` calls: `getAll` keys are arrays, and `get` keys are required when the
+ * handler bails out without them or asserts them with `!`.
+ * @param handlerNode - The handler node
+ * @param omitKeys - Keys the SDKs pass separately, such as the page cursor of an infinite query
+ * @returns The query type, or undefined if the handler reads no known keys
+ */
+export function determineQueryType(handlerNode: HandlerFunction | undefined, omitKeys: string[] = []): QueryTypeInfo | undefined {
+    const reqParam = handlerNode?.getParameters()[0];
+    if (!handlerNode || !reqParam) return undefined;
+    const isSearchParams = getSearchParamsMatcher(handlerNode, reqParam.getName());
+    const isQueryObject = (expr: Node): boolean => {
+        const call = expr.asKind(SyntaxKind.CallExpression);
+        if (!call || call.getExpression().getText() !== 'Object.fromEntries') return false;
+        const [arg] = call.getArguments();
+        if (!arg) return false;
+        const entriesCall = arg.asKind(SyntaxKind.CallExpression)?.getExpression().asKind(SyntaxKind.PropertyAccessExpression);
+        return isSearchParams(arg) || (entriesCall?.getName() === 'entries' && isSearchParams(entriesCall.getExpression()));
+    };
+    const queryVars = new Set<string>();
+    handlerNode.getDescendantsOfKind(SyntaxKind.VariableDeclaration).forEach((varDecl) => {
+        const init = varDecl.getInitializer();
+        if (init && isQueryObject(init)) queryVars.add(varDecl.getName());
+    });
+
+    const zodMethods = ['parse', 'parseAsync', 'safeParse', 'safeParseAsync'];
+    for (const callExp of handlerNode.getDescendantsOfKind(SyntaxKind.CallExpression)) {
+        const pae = callExp.getExpression().asKind(SyntaxKind.PropertyAccessExpression);
+        const [arg] = callExp.getArguments();
+        if (!pae || !arg || !zodMethods.includes(pae.getName())) continue;
+        if (!isQueryObject(arg) && !queryVars.has(arg.getText())) continue;
+
+        const typeArgs = pae.getExpression().getType().getTypeArguments();
+        if (typeArgs.length === 0) continue;
+        const schemaType = typeArgs[typeArgs.length - 1];
+        const properties = schemaType.getProperties().filter((prop) => !omitKeys.includes(prop.getName()));
+        return {
+            type: omitKeys.length > 0
+                ? `Omit<${schemaType.getText()}, ${omitKeys.map((key) => JSON.stringify(key)).join(' | ')}>`
+                : schemaType.getText(),
+            required: properties.some((prop) => !prop.isOptional()),
+        };
+    }
+
+    const keys = new Map<string, { isArray: boolean; required: boolean }>();
+    const isGuarded = getGuardCheck(handlerNode);
+
+    handlerNode.getDescendantsOfKind(SyntaxKind.CallExpression).forEach((callExp) => {
+        const pae = callExp.getExpression().asKind(SyntaxKind.PropertyAccessExpression);
+        const [arg] = callExp.getArguments();
+        if (!pae || !['get', 'getAll', 'has'].includes(pae.getName()) || !isSearchParams(pae.getExpression())) return;
+        if (!arg || !Node.isStringLiteral(arg)) return;
+
+        const key = arg.getLiteralValue();
+        if (omitKeys.includes(key)) return;
+        const entry = keys.get(key) ?? { isArray: false, required: false };
+        if (pae.getName() === 'getAll') entry.isArray = true;
+        if (pae.getName() === 'get') {
+            const parent = callExp.getParent();
+            const declaredName = parent?.isKind(SyntaxKind.VariableDeclaration) ? parent.getName() : undefined;
+            if (
+                parent?.isKind(SyntaxKind.NonNullExpression) ||
+                isGuarded(callExp.getText()) ||
+                (declaredName !== undefined && isGuarded(declaredName))
+            ) {
+                entry.required = true;
+            }
+        }
+        keys.set(key, entry);
+    });
+
+    if (keys.size === 0) return undefined;
+    const fields = Array.from(keys, ([key, { isArray, required }]) =>
+        `${formatPropertyName(key)}${required ? '' : '?'}: ${isArray ? 'string[]' : 'string'}`,
+    );
+    return {
+        type: `{ ${fields.join('; ')} }`,
+        required: Array.from(keys.values()).some((entry) => entry.required),
+    };
+}
+
+/**
+ * Determines the fields a handler reads from `await req.formData()`, so the SDKs can send it a multipart body.
+ * Keys are collected from `get` and `getAll` calls. A field is a `File` when the handler checks it with
+ * `instanceof File` (or `Blob`) or casts it with `as File`, and a string otherwise; `get` fields are required when
+ * the handler bails out without them or asserts them with `!` or a cast.
+ * @param handlerNode - The handler node
+ * @returns The form fields as a type literal string, or undefined if the handler doesn't read form data
+ */
+export function determineFormDataType(handlerNode: HandlerFunction | undefined): string | undefined {
+    const reqParam = handlerNode?.getParameters()[0];
+    if (!handlerNode || !reqParam) return undefined;
+
+    const formDataCall = `${reqParam.getName()}.formData`;
+    const formVars = new Set<string>();
+    handlerNode.getDescendantsOfKind(SyntaxKind.VariableDeclaration).forEach((varDecl) => {
+        const init = varDecl.getInitializer();
+        const call = (init?.asKind(SyntaxKind.AwaitExpression)?.getExpression() ?? init)?.asKind(SyntaxKind.CallExpression);
+        if (call?.getExpression().getText() === formDataCall) formVars.add(varDecl.getName());
+    });
+    if (formVars.size === 0) return undefined;
+
+    const isGuarded = getGuardCheck(handlerNode);
+    const instanceChecks = handlerNode
+        .getDescendantsOfKind(SyntaxKind.BinaryExpression)
+        .filter((bin) => bin.getOperatorToken().getKind() === SyntaxKind.InstanceOfKeyword)
+        .filter((bin) => ['File', 'Blob'].includes(bin.getRight().getText()))
+        .map((bin) => bin.getLeft().getText());
+
+    const fields = new Map<string, { isArray: boolean; isFile: boolean; required: boolean }>();
+    handlerNode.getDescendantsOfKind(SyntaxKind.CallExpression).forEach((callExp) => {
+        const pae = callExp.getExpression().asKind(SyntaxKind.PropertyAccessExpression);
+        const [arg] = callExp.getArguments();
+        if (!pae || !['get', 'getAll'].includes(pae.getName()) || !formVars.has(pae.getExpression().getText())) return;
+        if (!arg || !Node.isStringLiteral(arg)) return;
+
+        const field = fields.get(arg.getLiteralValue()) ?? { isArray: false, isFile: false, required: false };
+        const parent = callExp.getParent();
+        const declaredName = parent?.isKind(SyntaxKind.VariableDeclaration) ? parent.getName() : undefined;
+        const targets = [callExp.getText(), ...(declaredName ? [declaredName] : [])];
+        if (pae.getName() === 'getAll') field.isArray = true;
+        if (
+            targets.some((target) => instanceChecks.includes(target)) ||
+            ['File', 'Blob'].includes(parent?.asKind(SyntaxKind.AsExpression)?.getTypeNode()?.getText() ?? '')
+        ) {
+            field.isFile = true;
+        }
+        const isAsserted = parent?.isKind(SyntaxKind.NonNullExpression) || parent?.isKind(SyntaxKind.AsExpression);
+        if (pae.getName() === 'get' && (isAsserted || targets.some(isGuarded))) {
+            field.required = true;
+        }
+        fields.set(arg.getLiteralValue(), field);
+    });
+
+    if (fields.size === 0) return 'Record<string, string | File>';
+    const props = Array.from(fields, ([key, { isArray, isFile, required }]) => {
+        const type = isFile ? 'File' : 'string';
+        return `${formatPropertyName(key)}${required ? '' : '?'}: ${isArray ? `${type}[]` : type}`;
+    });
+    return `{ ${props.join('; ')} }`;
+}
+
+/**
+ * Determines the body type of a handler's response from its signature, handling Promises and Response wrappers.
+ * @param info - The method info
+ * @param handler - The resolved route handler
+ * @returns The body type
+ */
+function getReturnBodyType(info: MethodInfo, handler: RouteHandler | undefined): string {
+    const sig = handler?.signature;
+    const handlerNode = handler?.node;
 
     if (!sig) return info.returnType || 'unknown';
 
@@ -274,9 +507,12 @@ export function determineReturnType(
 
     if (['NextResponse', 'Response'].includes(retType.getSymbol()?.getName() || '')) {
         if (handlerNode) {
-            const retStmts = handlerNode.getDescendantsOfKind(SyntaxKind.ReturnStatement);
-            for (const retStmt of retStmts) {
-                const expr = retStmt.getExpression();
+            const body = handlerNode.getBody();
+            // an expression-bodied arrow function returns its body directly
+            const retExprs = body && !body.isKind(SyntaxKind.Block)
+                ? [body]
+                : handlerNode.getDescendantsOfKind(SyntaxKind.ReturnStatement).map((retStmt) => retStmt.getExpression());
+            for (const expr of retExprs) {
 
                 if (expr?.isKind(SyntaxKind.NewExpression)) {
                     const newExpr = expr.asKind(SyntaxKind.NewExpression)!;
@@ -317,21 +553,431 @@ export function determineReturnType(
     return retType.getText();
 }
 
+/**
+ * Determines the return type and response kind of a method. The kind is classified from the handler's 2xx return
+ * expressions and their Content-Type headers, and decides the decoded type of non-JSON bodies: `void` for empty
+ * responses, `string` for text and `Blob` for binary data. Redirects are returned as a `RedirectResult`.
+ * @param info - The method info
+ * @param handler - The resolved route handler
+ * @returns The return type and response kind
+ */
+export function determineReturnType(
+    info: MethodInfo,
+    handler: RouteHandler | undefined,
+): { type: string; kind: ResponseKind } {
+    const kinds = handler?.node
+        ? getReturnedExpressions(handler.node).flatMap((expr) => {
+            const kind = getResponseKind(expr);
+            const status = getResponseParts(expr)?.status ?? 200;
+            return kind === 'redirect' || isSuccessStatus(status) ? [kind ?? 'json'] : [];
+        })
+        : [];
+    const kind = pickResponseKind(kinds);
+    const type = getReturnBodyType(info, handler);
+    return { type: kind === 'redirect' ? 'RedirectResult' : DECODED_TYPES[kind] ?? type, kind };
+}
+
+/**
+ * Checks whether a status code is in the 2xx range.
+ * @param status - The status code
+ * @returns True for successful responses
+ */
+export const isSuccessStatus = (status: number): boolean => status >= 200 && status < 300;
+
+/**
+ * Reads the status code from a response init argument such as `{ status: 400 }`.
+ * @param init - The response init argument
+ * @returns The status code, 200 when the init has no literal status
+ */
+const getInitStatus = (init: Node | undefined): number => {
+    const statusProp = init?.asKind(SyntaxKind.ObjectLiteralExpression)?.getProperty('status');
+    const initializer = statusProp?.asKind(SyntaxKind.PropertyAssignment)?.getInitializer();
+    return initializer?.isKind(SyntaxKind.NumericLiteral) ? initializer.getLiteralValue() : 200;
+};
+
+/**
+ * Splits a returned response into its status code and body node.
+ * @param expr - The returned expression
+ * @returns The status and body, or undefined if the expression is not a JSON or plain response
+ */
+const getResponseParts = (expr: Node): { status: number; body: Node | undefined } | undefined => {
+    const call = expr.asKind(SyntaxKind.CallExpression);
+    if (call && ['NextResponse.json', 'Response.json'].includes(call.getExpression().getText())) {
+        const [body, init] = call.getArguments();
+        return { status: getInitStatus(init), body };
+    }
+
+    const newExpr = expr.asKind(SyntaxKind.NewExpression);
+    if (newExpr && ['NextResponse', 'Response'].includes(newExpr.getExpression().getText())) {
+        const [body, init] = newExpr.getArguments();
+        const stringified = body?.asKind(SyntaxKind.CallExpression);
+        const payload =
+            stringified?.getExpression().getText() === 'JSON.stringify' ? stringified.getArguments()[0] : body;
+        return { status: getInitStatus(init), body: payload };
+    }
+    return undefined;
+};
+
+// statuses that can't carry a body
+const NULL_BODY_STATUSES = [101, 204, 205, 304];
+
+// the decoded type of successful responses that aren't JSON or streams
+const DECODED_TYPES: Partial<Record<ResponseKind, string>> = { empty: 'null', text: 'string', binary: 'Blob' };
+
+// What a HEAD request resolves to
+const HEAD_RESPONSE_TYPE = '{ status: number; headers: Headers }';
+
+/**
+ * Reads the Content-Type from a response init argument such as `{ headers: { 'Content-Type': 'text/csv' } }`.
+ * @param init - The response init argument
+ * @returns The lower-cased content type, or undefined when the init has no literal Content-Type
+ */
+const getInitContentType = (init: Node | undefined): string | undefined => {
+    const headersProp = init?.asKind(SyntaxKind.ObjectLiteralExpression)?.getProperty('headers');
+    let headers: Node | undefined = headersProp?.asKind(SyntaxKind.PropertyAssignment)?.getInitializer();
+    // `new Headers({ ... })`
+    const newHeaders = headers?.asKind(SyntaxKind.NewExpression);
+    if (newHeaders?.getExpression().getText() === 'Headers') headers = newHeaders.getArguments()[0];
+
+    const contentType = headers
+        ?.asKind(SyntaxKind.ObjectLiteralExpression)
+        ?.getProperties()
+        .flatMap((prop) => prop.asKind(SyntaxKind.PropertyAssignment) ?? [])
+        .find((prop) => prop.getName().replace(/['"]/g, '').toLowerCase() === 'content-type')
+        ?.getInitializer();
+    return contentType && Node.isStringLiteral(contentType) ? contentType.getLiteralValue().toLowerCase() : undefined;
+};
+
+/**
+ * Classifies a single returned response by what it sends. An explicit Content-Type decides, then the body type:
+ * `JSON.stringify` bodies are JSON, strings are text, and `Blob`s and byte arrays are binary.
+ * @param expr - The returned expression
+ * @returns The response kind, or undefined if the expression is not a response the SDK can read
+ */
+const getResponseKind = (expr: Node): ResponseKind | undefined => {
+    const callee = expr.asKind(SyntaxKind.CallExpression)?.getExpression().getText();
+    if (callee === 'NextResponse.redirect' || callee === 'Response.redirect') return 'redirect';
+    if (callee === 'NextResponse.json' || callee === 'Response.json') return 'json';
+
+    const newExpr = expr.asKind(SyntaxKind.NewExpression);
+    if (!newExpr || !['NextResponse', 'Response'].includes(newExpr.getExpression().getText())) return undefined;
+    const [body, init] = newExpr.getArguments();
+    if (!body || NULL_BODY_STATUSES.includes(getInitStatus(init)) || ['null', 'undefined'].includes(body.getText())) {
+        return 'empty';
+    }
+
+    const type = body.getType();
+    const bodyType = type.getText();
+    const contentType = getInitContentType(init);
+    if (contentType?.startsWith('text/event-stream') || /\bReadableStream\b/.test(bodyType)) return 'stream';
+    if (contentType) {
+        if (/[/+]json\b/.test(contentType)) return 'json';
+        if (/^text\/|[/+]xml\b|javascript/.test(contentType)) return 'text';
+        return 'binary';
+    }
+    if (body.asKind(SyntaxKind.CallExpression)?.getExpression().getText() === 'JSON.stringify') return 'json';
+    if (type.isString() || type.isStringLiteral() || type.isTemplateLiteral()) return 'text';
+    if (/\b(Blob|File|ArrayBuffer|ArrayBufferView|DataView|Uint8Array|Buffer)\b/.test(bodyType)) return 'binary';
+    return 'json';
+};
+
+/**
+ * Picks how a method's responses are decoded from the kinds its handler returns. When the kinds differ, the one
+ * that decodes every body without loss wins: a stream over bytes, bytes over text, and text over JSON.
+ * @param kinds - The kinds of the handler's successful responses and redirects
+ * @returns The response kind
+ */
+const pickResponseKind = (kinds: ResponseKind[]): ResponseKind =>
+    (['stream', 'binary', 'text', 'json', 'redirect', 'empty'] as const).find((kind) => kinds.includes(kind)) ?? 'json';
+
+/**
+ * Reads a literal string, e.g. a redirect target.
+ * @param node - The node
+ * @returns The string, or undefined if the node is not a string literal or a template without substitutions
+ */
+const getLiteralString = (node: Node | undefined): string | undefined =>
+    node && (Node.isStringLiteral(node) || Node.isNoSubstitutionTemplateLiteral(node)) ? node.getLiteralValue() : undefined;
+
+/**
+ * Finds the redirects a handler returns. A target is known ahead of the request when it is a literal URL, or a
+ * `new URL()` of a literal path resolved against the request URL, such as `new URL('/login', req.url)`.
+ * @param handlerNode - The handler node
+ * @returns The redirects, in order of appearance
+ */
+export function determineRedirects(handlerNode: HandlerFunction | undefined): RedirectInfo[] {
+    if (!handlerNode) return [];
+    return getReturnedExpressions(handlerNode).flatMap((expr) => {
+        const call = expr.asKind(SyntaxKind.CallExpression);
+        if (!call || getResponseKind(call) !== 'redirect') return [];
+        const [target, init] = call.getArguments();
+        if (!target) return [];
+
+        const newUrl = target.asKind(SyntaxKind.NewExpression);
+        const path = newUrl?.getExpression().getText() === 'URL' ? newUrl.getArguments()[0] : undefined;
+        // the init is either a status code or a response init; redirects default to 307
+        const initStatus = init?.asKind(SyntaxKind.NumericLiteral)?.getLiteralValue() ?? getInitStatus(init);
+        return [{
+            target: getLiteralString(target) ?? getLiteralString(path),
+            status: isSuccessStatus(initStatus) ? 307 : initStatus,
+        }];
+    });
+}
+
+/**
+ * Determines the decoded body type and status code of a single returned response.
+ * @param expr - The returned expression
+ * @returns The response, or undefined if the expression is not a JSON or plain response
+ */
+const getResponseInfo = (expr: Node): ResponseInfo | undefined => {
+    const parts = getResponseParts(expr);
+    if (!parts) return undefined;
+    const kind = getResponseKind(expr) ?? 'json';
+    const bodyType = parts.body && kind !== 'empty' ? parts.body.getType().getText() : 'null';
+    if (!isSuccessStatus(parts.status)) {
+        // error bodies are parsed as JSON when they can be, and read as text otherwise
+        return { status: parts.status, kind, type: kind === 'json' || kind === 'empty' ? bodyType : 'string' };
+    }
+    return { status: parts.status, kind, type: DECODED_TYPES[kind] ?? bodyType };
+};
+
+/**
+ * Collects the expressions a handler returns, ignoring returns from nested functions.
+ * @param handlerNode - The handler node
+ * @returns The returned expressions
+ */
+const getReturnedExpressions = (handlerNode: HandlerFunction): Node[] => {
+    const body = handlerNode.getBody();
+    if (!body) return [];
+    return !body.isKind(SyntaxKind.Block)
+        ? [body]
+        : handlerNode
+            .getDescendantsOfKind(SyntaxKind.ReturnStatement)
+            .filter((retStmt) => retStmt.getFirstAncestor((node) => Node.isFunctionLikeDeclaration(node)) === handlerNode)
+            .flatMap((retStmt) => retStmt.getExpression() ?? []);
+};
+
+/**
+ * Collects every response a handler returns, merging the body types of responses that share a status code.
+ * Returns from nested functions are ignored, as are redirects and expressions that are not responses.
+ * @param handlerNode - The handler node
+ * @returns The responses, in order of first appearance
+ */
+export function determineResponses(handlerNode: HandlerFunction | undefined): ResponseInfo[] {
+    if (!handlerNode) return [];
+
+    const byStatus = new Map<number, { types: Set<string>; kinds: ResponseKind[] }>();
+    getReturnedExpressions(handlerNode).forEach((expr) => {
+        const response = getResponseInfo(expr);
+        if (!response) return;
+        const entry = byStatus.get(response.status) ?? { types: new Set<string>(), kinds: [] };
+        entry.types.add(response.type);
+        entry.kinds.push(response.kind);
+        byStatus.set(response.status, entry);
+    });
+    return Array.from(byStatus, ([status, { types, kinds }]) => ({
+        status,
+        type: Array.from(types).join(' | '),
+        kind: pickResponseKind(kinds),
+    }));
+}
+
+/**
+ * Reads the fallback a handler gives a query parameter, e.g. `'1'` in `searchParams.get('page') || '1'`.
+ * @param callExp - The `searchParams.get()` call
+ * @returns The fallback string, or undefined if the handler has none
+ */
+const getQueryFallback = (callExp: CallExpression): string | undefined => {
+    const parent = callExp.getParent()?.asKind(SyntaxKind.BinaryExpression);
+    if (!parent || parent.getLeft() !== callExp || !['||', '??'].includes(parent.getOperatorToken().getText())) {
+        return undefined;
+    }
+    const fallback = parent.getRight();
+    return Node.isStringLiteral(fallback) ? fallback.getLiteralValue() : undefined;
+};
+
+/**
+ * Reads the pagination contract a route file declares for a method with an
+ * `export type Infinite = InfiniteContract<{ GET: { param: 'after'; next: 'continuation' } }>` type export.
+ * @param handlerNode - The handler node
+ * @param method - The HTTP method name
+ * @returns The declared contract, why it is invalid, or undefined if the route file declares none for the method
+ */
+const getPaginationContract = (
+    handlerNode: HandlerFunction,
+    method: string,
+): { param: string; next: string; previous?: string; initial?: string | number } | string | undefined => {
+    const alias = handlerNode.getSourceFile().getTypeAlias('Infinite');
+    const contract = alias?.isExported() ? alias.getType().getProperty(method) : undefined;
+    if (!alias || !contract) return undefined;
+
+    const fields: Record<string, string | number | undefined> = {};
+    for (const field of ['param', 'next', 'previous', 'initial']) {
+        const type = contract.getTypeAtLocation(alias).getProperty(field)?.getTypeAtLocation(alias).getNonNullableType();
+        if (!type) continue;
+        if (!type.isStringLiteral() && !(field === 'initial' && type.isNumberLiteral())) {
+            return `its \`Infinite\` contract's \`${field}\` is not a literal`;
+        }
+        fields[field] = type.getLiteralValue() as string | number;
+    }
+    const { param, next, previous, initial } = fields;
+    if (typeof param !== 'string' || typeof next !== 'string') return "its `Infinite` contract has no `param` or `next`";
+    return { param, next, previous: previous as string | undefined, initial };
+};
+
+/**
+ * Determines the pagination contract of a `'use infinite'` endpoint, from the route file's `Infinite` type export or
+ * else from its response type. Inferred responses carry the next page's cursor in a `next<Name>` property (`nextPage`,
+ * `nextCursor`, `nextOffset`) and optionally the previous page's in `previous<Name>` or `prev<Name>`. The cursor is
+ * sent as the `<name>` query parameter, or `pagination`, whichever the handler reads, and the first page uses the
+ * handler's fallback for it.
+ * @param handlerNode - The handler node
+ * @param method - The HTTP method name
+ * @returns The pagination contract, or why it could not be determined
+ */
+export function determinePagination(handlerNode: HandlerFunction | undefined, method: string): PaginationInfo | string {
+    if (!handlerNode) return 'its handler could not be resolved';
+    const contract = getPaginationContract(handlerNode, method);
+    if (typeof contract === 'string') return contract;
+
+    const reads = new Map<string, CallExpression>();
+    const reqParam = handlerNode.getParameters()[0];
+    if (reqParam) {
+        const isSearchParams = getSearchParamsMatcher(handlerNode, reqParam.getName());
+        handlerNode.getDescendantsOfKind(SyntaxKind.CallExpression).forEach((callExp) => {
+            const pae = callExp.getExpression().asKind(SyntaxKind.PropertyAccessExpression);
+            const [arg] = callExp.getArguments();
+            if (pae?.getName() === 'get' && isSearchParams(pae.getExpression()) && arg && Node.isStringLiteral(arg)) {
+                reads.set(arg.getLiteralValue(), callExp);
+            }
+        });
+    }
+
+    const bodies = getReturnedExpressions(handlerNode)
+        .map(getResponseParts)
+        .flatMap((parts) => (parts && isSuccessStatus(parts.status) && parts.body ? [parts.body] : []));
+    for (const body of bodies) {
+        const properties = body.getType().getProperties();
+        const next = properties.find((prop) =>
+            contract ? prop.getName() === contract.next : /^next[A-Z]\w*$/.test(prop.getName()),
+        );
+        if (!next) continue;
+
+        const name = next.getName().slice('next'.length);
+        const previousNames = contract ? [contract.previous] : [`previous${name}`, `prev${name}`];
+        const previous = properties.find((prop) => previousNames.includes(prop.getName()));
+        if (contract?.previous && !previous) return `its response has no \`${contract.previous}\` property`;
+
+        const defaultParam = name.charAt(0).toLowerCase() + name.slice(1);
+        const param = contract?.param ?? [defaultParam, 'pagination'].find((key) => reads.has(key));
+        if (!param) {
+            return `its handler reads neither the \`${defaultParam}\` nor the \`pagination\` query parameter for the cursor`;
+        }
+
+        const cursorType = next.getTypeAtLocation(body).getNonNullableType().getText();
+        const read = reads.get(param);
+        const fallback = read && getQueryFallback(read);
+        let initialCursor = 'undefined';
+        if (contract?.initial !== undefined) {
+            initialCursor = JSON.stringify(contract.initial);
+        } else if (cursorType === 'number') {
+            initialCursor = fallback !== undefined && !Number.isNaN(Number(fallback))
+                ? String(Number(fallback))
+                : ['offset', 'skip'].includes(param) ? '0' : '1';
+        } else if (cursorType === 'string' && fallback) {
+            initialCursor = JSON.stringify(fallback);
+        }
+
+        return { param, cursorType, initialCursor, nextField: next.getName(), previousField: previous?.getName() };
+    }
+    return contract
+        ? `its response has no \`${contract.next}\` property`
+        : 'its response has no next page cursor such as `nextPage`';
+}
+
+/**
+ * Collects the types a handler serializes into `data:` lines of server-sent events, e.g. the type of `payload` in
+ * `` `data: ${JSON.stringify(payload)}\n\n` ``.
+ * @param scope - The node to search
+ * @returns The event data types
+ */
+const getEventDataTypes = (scope: Node): string[] =>
+    scope
+        .getDescendantsOfKind(SyntaxKind.TemplateExpression)
+        .filter((template) => template.getText().includes('data:'))
+        .flatMap((template) => template.getTemplateSpans())
+        .flatMap((span) => {
+            const call = span.getExpression().asKind(SyntaxKind.CallExpression);
+            const [arg] = call?.getExpression().getText() === 'JSON.stringify' ? call.getArguments() : [];
+            return arg ? [arg.getType().getText()] : [];
+        });
+
+/**
+ * Determines how a `ReadableStream` endpoint's body is read. Handlers that set a `text/event-stream` content type
+ * send server-sent events, whose data type comes from the values they `JSON.stringify` into `data:` lines, in the
+ * handler or else anywhere in its file.
+ * @param handlerNode - The handler node
+ * @returns The stream info
+ */
+export function determineStreamInfo(handlerNode: HandlerFunction | undefined): StreamInfo {
+    if (!handlerNode?.getText().includes('text/event-stream')) return { format: 'text', eventType: 'string' };
+    const handlerTypes = getEventDataTypes(handlerNode);
+    const types = handlerTypes.length > 0 ? handlerTypes : getEventDataTypes(handlerNode.getSourceFile());
+    return { format: 'events', eventType: types.length > 0 ? Array.from(new Set(types)).join(' | ') : 'string' };
+}
+
+/**
+ * Returns the redirect target of a method when the handler was analysed to always redirect to the same literal URL.
+ * @param methodInfo - Information about the method.
+ * @returns The target, or undefined when it is computed or differs between redirects.
+ */
+export function getRedirectTarget(methodInfo: MethodInfo): string | undefined {
+    const [first, ...rest] = methodInfo.redirects ?? [];
+    return rest.every((redirect) => redirect.target === first?.target) ? first?.target : undefined;
+}
+
 /**
  * Refines the input and return types of methods using ts-morph analysis.
- * @param sourceFile - The source file containing the methods
  * @param methods - The methods to refine
+ * @param handlers - The resolved route handlers by method
  */
-export function refineMethodTypes(sourceFile: SourceFile, methods: MethodInfo[]): void {
+export function refineMethodTypes(methods: MethodInfo[], handlers: Map<HttpMethod, RouteHandler>): void {
     methods.forEach((info) => {
-        const handlerDecl = sourceFile.getVariableDeclaration(info.name);
-        const handlerNode =
-            handlerDecl?.getInitializerIfKind(SyntaxKind.ArrowFunction) ??
-            sourceFile.getFunction(info.name);
+        const handler = handlers.get(info.name as HttpMethod);
+
+        const formDataType = determineFormDataType(handler?.node);
+        const inferred = formDataType ?? determineInputType(handler?.node);
+        if (formDataType) info.bodyFormat = 'form';
+        // the cursor is passed to infinite queries separately from the rest of the query
+        const query = determineQueryType(handler?.node, info.pagination ? [info.pagination.param] : []);
+        if (query) {
+            info.queryType = query.type;
+            info.queryRequired = query.required;
+        }
+        info.inputType = inferred === 'unknown' && isBodilessMethod(info.name) ? 'void' : inferred;
 
-        const inferred = determineInputType(handlerNode);
-        info.inputType = inferred === 'unknown' && info.name === 'GET' ? 'void' : inferred;
+        const { type, kind } = determineReturnType(info, handler);
+        // HEAD responses never carry a body, so they resolve to what they do carry
+        info.returnType = info.name === 'HEAD' ? HEAD_RESPONSE_TYPE : type;
+        info.responseKind = info.name === 'HEAD' ? 'head' : kind;
+        if (info.responseKind === 'redirect') info.redirects = determineRedirects(handler?.node);
 
-        info.returnType = determineReturnType(sourceFile, info, handlerNode);
+        const responses = determineResponses(handler?.node);
+        if (responses.length > 0) {
+            info.responses = responses;
+            const successes = responses.filter((response) => isSuccessStatus(response.status));
+            const failures = responses.filter((response) => !isSuccessStatus(response.status));
+            if (successes.length > 0 && info.name !== 'HEAD' && info.responseKind !== 'redirect') {
+                info.returnType = successes.map((response) => response.type).join(' | ');
+                info.successType = successes.map((response) => `{ status: ${response.status}; data: ${response.type} }`).join(' | ');
+            }
+            if (failures.length > 0) {
+                const declared = failures.map((response) => `HttpError<${response.status}, ${response.type}>`);
+                const statuses = Array.from(new Set(failures.map((response) => response.status))).join(' | ');
+                info.errorType = [...declared, `UnexpectedHttpError<${statuses}>`, 'RequestError'].join(' | ');
+            }
+        }
+
+        // a stream may be returned alongside empty responses, such as a 204 telling an event stream to stop
+        if (info.responseKind === 'stream') info.stream = determineStreamInfo(handler?.node);
     });
-} 
\ No newline at end of file
+}
@@ -1,16 +1,102 @@
+import type { KeyCasing } from './config.ts';
+import type { HookKind, RequestPolicy } from './handler-resolver.ts';
+import type { HookBackend } from './hook-backends.ts';
+
+/**
+ * What a handler responds with, which decides how the SDKs decode the response body: JSON, nothing (e.g. a 204),
+ * text, a `Blob`, a `ReadableStream`, a redirect, or the status and headers of a HEAD response.
+ */
+export type ResponseKind = 'json' | 'empty' | 'text' | 'binary' | 'stream' | 'redirect' | 'head';
+
+/**
+ * A redirect a route handler returns with `NextResponse.redirect()` or `Response.redirect()`.
+ */
+export interface RedirectInfo {
+	/** The target, when it is known without making the request: a literal URL, or a `new URL()` of a literal path. */
+	target?: string;
+	/** The status code, 307 when omitted. */
+	status: number;
+}
+
+/**
+ * Represents one of the responses a route handler can return.
+ */
+export interface ResponseInfo {
+	/** The status code passed in the response init, 200 when omitted. */
+	status: number;
+	/** The type of the response body, as the SDKs decode it. */
+	type: string;
+	kind: ResponseKind;
+}
+
+/**
+ * The pagination contract of a `'use infinite'` endpoint, declared with its route file's `Infinite` type export or
+ * inferred from its response type and the query parameter it reads the cursor from.
+ */
+export interface PaginationInfo {
+	/** The query parameter carrying the cursor, e.g. `cursor`. */
+	param: string;
+	/** The cursor type, e.g. `number` or `string`. */
+	cursorType: string;
+	/** The cursor of the first page as code, e.g. `1`, or `undefined` when the first page is requested without one. */
+	initialCursor: string;
+	/** The response property holding the next page's cursor, e.g. `nextCursor`. */
+	nextField: string;
+	/** The response property holding the previous page's cursor, when pages can be loaded backwards. */
+	previousField?: string;
+}
+
+/**
+ * How a `ReadableStream` endpoint's body is read.
+ */
+export interface StreamInfo {
+	/** `events` for `text/event-stream` responses, `text` for anything else. */
+	format: 'text' | 'events';
+	/** The data type of the events, which are sent as JSON unless it is `string`. */
+	eventType: string;
+}
+
 /**
  * Represents information about a method in a route node.
  */
 export interface MethodInfo {
 	name: string;
+	/** The route file exporting the handler, which the server SDK imports and calls. */
+	routeFile?: string;
+	/** The hook the client SDK generates, from the HTTP method or a `'use query'`-style directive. */
+	hook: HookKind;
+	/** The retry and timeout policy from `'use retry 3'`-style directives. */
+	policy?: RequestPolicy;
+	/** The pagination contract of a `'use infinite'` endpoint. */
+	pagination?: PaginationInfo;
+	/** How the body of a `ReadableStream` endpoint is read. */
+	stream?: StreamInfo;
+	/** The body type of the handler's 2xx responses. */
 	returnType: string;
+	/** How the SDKs decode the handler's 2xx responses. Defaults to `json`. */
+	responseKind?: ResponseKind;
+	/** The redirects the handler returns, when its responses are redirects. */
+	redirects?: RedirectInfo[];
+	/** Every response the handler returns, by status code. */
+	responses?: ResponseInfo[];
+	/** The handler's 2xx responses as a union of `{ status; data }` types, so callers can tell a 200 from a 201. */
+	successType?: string;
+	/**
+	 * The handler's non-2xx responses as a union of `HttpError<status, body>` types, when it has any, widened with an
+	 * `UnexpectedHttpError` of any other status and a `RequestError`, since a proxy or the network can fail the
+	 * request too.
+	 */
+	errorType?: string;
 	inputType: string;
-	handlerCode?: string;
-	schemaName?: string;
-	schemaAlias?: string;
-	schemaImportPath?: string;
-	paramName?: string;
+	/** `form` when the handler reads its body with `formData()`, so the SDKs send a multipart body. */
+	bodyFormat?: 'json' | 'form';
+	/** The type of the query parameters the handler reads, e.g. `{ formId: string; tags?: string[] }`. */
+	queryType?: string;
+	/** Whether the query has required keys, so the SDKs require a `query` argument. */
+	queryRequired?: boolean;
+	/** The keys the handler destructures from its JSON body, when the body type couldn't be inferred. */
 	bodyParams?: string[];
+	/** The variable the handler reads its JSON body into, e.g. `body` from `const body = await req.json()`. */
 	bodyVariableName?: string;
 }
 
@@ -30,7 +116,52 @@ export interface ImportDeclarationInfo {
  */
 export interface RouteNode {
 	segment: string;
+	/** The URL-bearing folder names leading to this route, e.g. `['api', 'posts', '[postId]']`. */
+	routePath: string[];
 	methods: MethodInfo[];
 	imports?: ImportDeclarationInfo[];
 	children: Record<string, RouteNode>;
 }
+
+/**
+ * Options shared by the client and server code builders.
+ */
+export interface CodeBuilderOptions {
+	keyCasing: KeyCasing;
+	/** The React Query package the client SDK's hooks target. */
+	hookBackend: HookBackend;
+}
+
+/**
+ * Options of the server code builder.
+ */
+export interface ServerCodeBuilderOptions extends CodeBuilderOptions {
+	/** The name each route file's module is imported as, by file. */
+	routeModules: Map<string, string>;
+}
+
+/**
+ * Represents a generated SDK file.
+ */
+export interface GeneratedFile {
+	path: string;
+	contents: string;
+}
+
+/**
+ * Represents a problem found while generating the SDKs.
+ */
+export interface GeneratorDiagnostic {
+	severity: 'error' | 'warning';
+	message: string;
+	file?: string;
+}
+
+/**
+ * Receives the generator's progress and diagnostic output.
+ */
+export interface GeneratorLogger {
+	info(message: string): void;
+	warn(message: string): void;
+	error(message: string, error?: unknown): void;
+}
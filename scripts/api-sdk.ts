@@ -1,36 +1,84 @@
 import * as fs from 'fs';
 import * as path from 'path';
 import * as chokidar from 'chokidar';
-import { fileURLToPath } from 'url';
 import { Project } from 'ts-morph';
 import * as prettier from 'prettier';
 import { colorString } from '../utils/general.ts';
-import { parseRoutes } from './api-sdk-utils/route-parser.ts';
+import { parseRoutes, updateRoutes, ROUTE_FILE_NAMES, isRouteFile } from './api-sdk-utils/route-parser.ts';
 import { buildObjectCode } from './api-sdk-utils/client-code-builder.ts';
 import { buildServerObjectCode } from './api-sdk-utils/server-code-builder.ts';
-import type { RouteNode } from './api-sdk-utils/types.ts';
+import { buildFetchObjectCode, buildApiRoutesCode } from './api-sdk-utils/fetch-code-builder.ts';
+import { getHookBackendTemplate } from './api-sdk-utils/hook-backends.ts';
+import { getRuntimeImport, getOutputImport, resolveConfig } from './api-sdk-utils/config.ts';
+import type { ApiSdkConfig, ResolvedApiSdkConfig } from './api-sdk-utils/config.ts';
+import type { RouteNode, GeneratedFile, GeneratorDiagnostic, GeneratorLogger } from './api-sdk-utils/types.ts';
 
-const __filename = fileURLToPath(import.meta.url);
-const __dirname = path.dirname(__filename);
-
-const appDir = path.resolve(__dirname, '../app');
+/**
+ * Options shared by the generator entry points.
+ */
+export interface GeneratorOptions {
+	debug?: boolean;
+	logger?: GeneratorLogger;
+}
 
-const watchMode = process.argv.includes('--watch');
-const debugMode = process.argv.includes('--debug');
+const consoleLogger: GeneratorLogger = {
+	info: (message) => console.log(message),
+	warn: (message) => console.warn(message),
+	error: (message, error) => (error === undefined ? console.error(message) : console.error(message, error)),
+};
 
-if (debugMode) console.log(colorString(`[INIT]`, 'cyan') + ' Generating initial API SDK...');
-if (debugMode)
-	console.log(colorString(`[WATCHING]`, 'blue') + ` Watching for route.ts changes in the app directory...`);
+/**
+ * Options for the programmatic {@link generate} API: any config option plus the root directory relative paths
+ * are resolved against (defaults to the current working directory).
+ */
+export interface GenerateOptions extends ApiSdkConfig, GeneratorOptions {
+	rootDir?: string;
+}
 
-let project: Project = new Project({
-	tsConfigFilePath: path.resolve(__dirname, '../tsconfig.json'),
-	skipAddingFilesFromTsConfig: true,
-});
+/**
+ * The in-memory output of a generator run.
+ */
+export interface GenerateResult {
+	files: GeneratedFile[];
+	routes: RouteNode;
+	diagnostics: GeneratorDiagnostic[];
+}
 
-const projectRoot = path.resolve(__dirname, '../.prettierrc');
-let prettierConfig = await prettier.resolveConfig(projectRoot);
+/**
+ * State shared across a single generator run or watch session.
+ */
+interface GeneratorContext {
+	config: ResolvedApiSdkConfig;
+	project: Project;
+	prettierConfig: prettier.Options | null;
+	diagnostics: GeneratorDiagnostic[];
+	logger: GeneratorLogger;
+	debug: boolean;
+}
 
-let currentTree: RouteNode;
+/**
+ * Creates the ts-morph project and resolves the Prettier config for a generator run.
+ * @param config - The resolved generator config.
+ * @param options - The generator options.
+ * @returns The generator context.
+ */
+const createContext = async (config: ResolvedApiSdkConfig, options: GeneratorOptions): Promise<GeneratorContext> => {
+	const project = new Project({
+		tsConfigFilePath: config.tsConfigFilePath,
+		skipAddingFilesFromTsConfig: true,
+		// route files may be JavaScript, typed through JSDoc
+		compilerOptions: { allowJs: true },
+	});
+	const prettierConfig = await prettier.resolveConfig(config.prettierConfigPath);
+	return {
+		config,
+		project,
+		prettierConfig,
+		diagnostics: [],
+		logger: options.logger ?? consoleLogger,
+		debug: options.debug ?? false,
+	};
+};
 
 /**
  * Collects all import declarations from a route node and its children.
@@ -186,29 +234,66 @@ const filterUnusedImports = (
 	});
 };
 
+/**
+ * The error types of the runtime that generated error unions are built from.
+ */
+const ERROR_TYPES = ['HttpError', 'UnexpectedHttpError', 'RequestError'];
+
+/**
+ * Builds the type import of the runtime error types a generated body refers to.
+ * @param ctx - The generator context.
+ * @param body - The generated code.
+ * @returns The import line, or undefined if the body refers to none.
+ */
+const buildErrorTypeImport = (ctx: GeneratorContext, body: string): string | undefined => {
+	const names = ERROR_TYPES.filter((name) => new RegExp(`\\b${name}\\b`).test(body));
+	return names.length > 0 ? `import type { ${names.join(', ')} } from "${getRuntimeImport(ctx.config, 'tryCatch.ts')}";` : undefined;
+};
+
 /**
  * Formats a code string using Prettier.
+ * @param ctx - The generator context, which collects formatting diagnostics.
  * @param code - The code string to format.
  * @param filePath - The path to the file to format.
  * @returns A formatted code string.
  */
-const formatCode = async (code: string, filePath: string, pconfig: prettier.Options | null = prettierConfig): Promise<string> => {
+const formatCode = async (ctx: GeneratorContext, code: string, filePath: string): Promise<string> => {
+	const pconfig = ctx.prettierConfig;
 	try {
 		if (!pconfig) {
-			console.warn(
-				colorString(`[PRETTIER]`, 'yellow') +
-					` Could not find Prettier config in project root. Using defaults.`,
-			);
+			ctx.diagnostics.push({
+				severity: 'warning',
+				message: 'Could not find Prettier config in project root. Using defaults.',
+				file: filePath,
+			});
 			return await prettier.format(code, { filepath: filePath });
 		}
 
 		return await prettier.format(code, { ...pconfig, filepath: filePath });
 	} catch (error) {
-		console.warn(colorString(`[PRETTIER]`, 'yellow') + ` Could not format ${path.basename(filePath)}: ${error}`);
+		ctx.diagnostics.push({
+			severity: 'warning',
+			message: `Could not format ${path.basename(filePath)}: ${error}`,
+			file: filePath,
+		});
 		return code;
 	}
 };
 
+/**
+ * Prints collected diagnostics to the console and clears them.
+ * @param ctx - The generator context.
+ */
+const reportDiagnostics = (ctx: GeneratorContext): void => {
+	ctx.diagnostics.forEach((diagnostic) => {
+		const label = diagnostic.severity === 'error' ? colorString(`[ERROR]`, 'red') : colorString(`[WARN]`, 'yellow');
+		const location = diagnostic.file ? ` (${path.relative(ctx.config.rootDir, diagnostic.file)})` : '';
+		if (diagnostic.severity === 'error') ctx.logger.error(`${label} ${diagnostic.message}${location}`);
+		else ctx.logger.warn(`${label} ${diagnostic.message}${location}`);
+	});
+	ctx.diagnostics.length = 0;
+};
+
 /**
  * Writes a generated SDK file to disk.
  * @param filePath - The path to the file to write.
@@ -221,22 +306,70 @@ const writeSdkFile = (filePath: string, contents: string): void => {
 };
 
 /**
- * Generates a client SDK file.
+ * Renders the client SDK file.
+ * @param ctx - The generator context.
  * @param tree - The route tree.
  * @param combinedImports - The combined import declarations.
- * @returns The path to the generated client SDK file.
+ * @returns The generated client SDK file.
  */
-const generateClientSdk = async (
+const renderClientSdk = async (
+	ctx: GeneratorContext,
 	tree: import('./api-sdk-utils/types').RouteNode,
 	combinedImports: import('./api-sdk-utils/types').ImportDeclarationInfo[],
-): Promise<string> => {
-	const clientBody = buildObjectCode(tree);
+): Promise<GeneratedFile> => {
+	const outFile = ctx.config.output.client;
+	const clientBody = buildObjectCode(tree, { keyCasing: ctx.config.keyCasing, hookBackend: ctx.config.hookBackend });
 	const clientImports = filterUnusedImports([...combinedImports], [clientBody]);
 	aliasConflictingImports(clientImports);
 	const clientImportLines = clientImports.map(formatImport);
 
-	if (clientBody.includes('tryCatchFunction')) {
-		clientImportLines.push('import { tryCatchFunction } from "../utils/tryCatch.ts";');
+	clientImportLines.push(`import { API as FetchAPI } from "${getOutputImport(outFile, ctx.config.output.fetch)}";`);
+	if (clientBody.includes('unwrap')) {
+		clientImportLines.push(`import { unwrap } from "${getRuntimeImport(ctx.config, 'tryCatch.ts')}";`);
+	}
+	const clientErrorImport = buildErrorTypeImport(ctx, clientBody);
+	if (clientErrorImport) clientImportLines.push(clientErrorImport);
+	if (clientBody.includes('useStream')) {
+		clientImportLines.push(
+			`import { useStream } from "${getRuntimeImport(ctx.config, 'useStream.ts')}";`,
+			`import type { UseStreamOptions, UseStreamResult } from "${getRuntimeImport(ctx.config, 'useStream.ts')}";`,
+		);
+	}
+	if (clientBody.includes('StreamEvent')) {
+		clientImportLines.push(`import type { StreamEvent } from "${getRuntimeImport(ctx.config, 'stream.ts')}";`);
+	}
+	if (clientBody.includes('navigateToRedirect')) {
+		clientImportLines.push(
+			'import { useRouter } from "next/navigation";',
+			`import { navigateToRedirect } from "${getRuntimeImport(ctx.config, 'redirect.ts')}";`,
+			`import type { RedirectOptions } from "${getRuntimeImport(ctx.config, 'redirect.ts')}";`,
+		);
+	}
+	if (clientBody.includes('withSignal')) {
+		clientImportLines.push(`import { withSignal } from "${getRuntimeImport(ctx.config, 'apiClient.ts')}";`);
+	}
+	if (clientBody.includes('RequestOptions')) {
+		clientImportLines.push(
+			`import type { RequestOptions } from "${getRuntimeImport(ctx.config, 'apiClient.ts')}";`,
+		);
+	}
+	if (clientBody.includes('toSearchParams')) {
+		clientImportLines.push(
+			`import { toSearchParams } from "${getRuntimeImport(ctx.config, 'searchParams.ts')}";`,
+		);
+	}
+	const queryCacheImports = ['queryNode', 'withQueryCache', 'withQueryKey', 'invalidateKeys'].filter((name) =>
+		clientBody.includes(name),
+	);
+	if (queryCacheImports.length > 0) {
+		clientImportLines.push(
+			`import { ${queryCacheImports.join(', ')} } from "${getRuntimeImport(ctx.config, 'queryCache.ts')}";`,
+		);
+	}
+	if (clientBody.includes('Invalidates<')) {
+		clientImportLines.push(
+			`import type { Invalidates } from "${getRuntimeImport(ctx.config, 'queryCache.ts')}";`,
+		);
 	}
 
 	const sdkContents = [
@@ -245,37 +378,190 @@ const generateClientSdk = async (
 		'/* Auto-generated API SDK - do not edit */',
 		...clientImportLines,
 		'',
-		"import { useQuery, useMutation, useInfiniteQuery } from 'react-query';",
-		"import type { UseQueryResult, UseMutationResult, UseInfiniteQueryResult } from 'react-query';",
+		...getHookBackendTemplate(ctx.config.hookBackend).imports,
 		'',
 		'export const API = ' + clientBody + ';',
 		'',
 	].join('\n');
 
-	const outFile = path.resolve(__dirname, '../api/client-sdk.ts');
-	const formattedSdk = await formatCode(sdkContents, outFile);
-	writeSdkFile(outFile, formattedSdk);
-	return outFile;
+	return { path: outFile, contents: await formatCode(ctx, sdkContents, outFile) };
 };
 
 /**
- * Generates a server SDK file.
+ * Renders the fetch client file.
+ * @param ctx - The generator context.
  * @param tree - The route tree.
  * @param combinedImports - The combined import declarations.
- * @returns The path to the generated server SDK file.
+ * @returns The generated fetch client file.
  */
-const generateServerSdk = async (
-	tree: import('./api-sdk-utils/types').RouteNode,
+const renderFetchClient = async (
+	ctx: GeneratorContext,
+	tree: RouteNode,
 	combinedImports: import('./api-sdk-utils/types').ImportDeclarationInfo[],
-): Promise<string> => {
-	const serverBody = buildServerObjectCode(tree);
-	const serverImports = filterUnusedImports([...combinedImports], [serverBody]);
-	aliasConflictingImports(serverImports);
-	const serverImportLines = serverImports.map(formatImport);
-	serverImportLines.push('import { tryCatchFunction } from "../utils/tryCatch.ts";');
-	serverImportLines.push('import { headers as nextHeaders } from "next/headers";');
-	serverImportLines.push('import { cookies as nextCookies } from "next/headers";');
-	serverImportLines.push('import { redirect } from "next/navigation";');
+): Promise<GeneratedFile> => {
+	const outFile = ctx.config.output.fetch;
+	const fetchBody = buildFetchObjectCode(tree, { keyCasing: ctx.config.keyCasing, hookBackend: ctx.config.hookBackend });
+	const apiRoutes = buildApiRoutesCode(tree);
+	const fetchImports = filterUnusedImports([...combinedImports], [fetchBody, ...apiRoutes]);
+	aliasConflictingImports(fetchImports);
+	const fetchImportLines = fetchImports.map(formatImport);
+
+	const tryCatchImports = ['tryCatchFunction', 'tryCatchWithError', 'tryCatchStatus'].filter((name) => fetchBody.includes(name));
+	if (tryCatchImports.length > 0) {
+		fetchImportLines.push(
+			`import { ${tryCatchImports.join(', ')} } from "${getRuntimeImport(ctx.config, 'tryCatch.ts')}";`,
+		);
+	}
+	const fetchErrorImport = buildErrorTypeImport(ctx, fetchBody);
+	if (fetchErrorImport) fetchImportLines.push(fetchErrorImport);
+	if (fetchBody.includes('apiFetch')) {
+		fetchImportLines.push(`import { apiFetch } from "${getRuntimeImport(ctx.config, 'apiClient.ts')}";`);
+	}
+	if (fetchBody.includes('RequestOptions')) {
+		fetchImportLines.push(
+			`import type { RequestOptions } from "${getRuntimeImport(ctx.config, 'apiClient.ts')}";`,
+		);
+	}
+	if (fetchBody.includes('openStream')) {
+		fetchImportLines.push(`import { openStream } from "${getRuntimeImport(ctx.config, 'stream.ts')}";`);
+	}
+	if (fetchBody.includes('StreamEvent')) {
+		fetchImportLines.push(`import type { StreamEvent } from "${getRuntimeImport(ctx.config, 'stream.ts')}";`);
+	}
+	if (fetchBody.includes('readStatusResponse')) {
+		fetchImportLines.push(`import { readStatusResponse } from "${getRuntimeImport(ctx.config, 'response.ts')}";`);
+	}
+	if (fetchBody.includes('readRedirect')) {
+		fetchImportLines.push(
+			`import { readRedirect } from "${getRuntimeImport(ctx.config, 'redirect.ts')}";`,
+			`import type { RedirectResult } from "${getRuntimeImport(ctx.config, 'redirect.ts')}";`,
+		);
+	}
+	if (fetchBody.includes('toFormData')) {
+		fetchImportLines.push(`import { toFormData } from "${getRuntimeImport(ctx.config, 'formData.ts')}";`);
+	}
+	if (fetchBody.includes('toSearchParams')) {
+		fetchImportLines.push(
+			`import { toSearchParams } from "${getRuntimeImport(ctx.config, 'searchParams.ts')}";`,
+		);
+	}
+
+	const fetchClientContents = [
+		'/* Auto-generated API fetch client - do not edit */',
+		'',
+		...fetchImportLines,
+		'',
+		'export const API = ' + fetchBody + ';',
+		'',
+		// registers the inputs of every route, so client middleware can narrow its context by route and method
+		...(apiRoutes.length > 0
+			? [`declare module "${getRuntimeImport(ctx.config, 'apiClient.ts')}" {`, 'interface ApiRoutes {', ...apiRoutes, '}', '}', '']
+			: []),
+	].join('\n');
+
+	return { path: outFile, contents: await formatCode(ctx, fetchClientContents, outFile) };
+};
+
+/**
+ * Collects the route files the methods of a route node and its children are exported from.
+ * @param node - The route node to collect route files from.
+ * @returns The route files, in tree order.
+ */
+const collectRouteFiles = (node: RouteNode): string[] => {
+	const files = new Set(node.methods.flatMap((method) => (method.routeFile ? [method.routeFile] : [])));
+	Object.values(node.children).forEach((child) => collectRouteFiles(child).forEach((file) => files.add(file)));
+	return Array.from(files);
+};
+
+/**
+ * Names the module of each route file the server SDK imports, after its path, e.g. `Route_posts_postId`.
+ * @param ctx - The generator context.
+ * @param routeFiles - The route files to name.
+ * @returns The module name of each route file.
+ */
+const getRouteModuleNames = (ctx: GeneratorContext, routeFiles: string[]): Map<string, string> => {
+	const names = new Map<string, string>();
+	const used = new Set<string>();
+	routeFiles.forEach((file) => {
+		const segments = path.relative(ctx.config.appDir, path.dirname(file)).split(path.sep).filter(Boolean);
+		const base = ['Route', ...segments].join('_').replace(/[^\w$]/g, '');
+		let name = base;
+		for (let i = 1; used.has(name); i++) name = `${base}_${i}`;
+		used.add(name);
+		names.set(file, name);
+	});
+	return names;
+};
+
+/**
+ * Renders the server SDK file. It imports the route modules themselves rather than what the route files import.
+ * @param ctx - The generator context.
+ * @param tree - The route tree.
+ * @returns The generated server SDK file.
+ */
+const renderServerSdk = async (
+	ctx: GeneratorContext,
+	tree: import('./api-sdk-utils/types').RouteNode,
+): Promise<GeneratedFile> => {
+	const serverOutFile = ctx.config.output.server;
+	const routeModules = getRouteModuleNames(ctx, collectRouteFiles(tree));
+	const serverBody = buildServerObjectCode(tree, {
+		keyCasing: ctx.config.keyCasing,
+		hookBackend: ctx.config.hookBackend,
+		routeModules,
+	});
+	const serverImportLines: string[] = [];
+	routeModules.forEach((name, file) => {
+		serverImportLines.push(`import * as ${name} from "${getOutputImport(serverOutFile, file)}";`);
+	});
+	const tryCatchImports = ['tryCatchFunction', 'tryCatchWithError', 'tryCatchStatus'].filter((name) => serverBody.includes(name));
+	if (tryCatchImports.length > 0) {
+		serverImportLines.push(
+			`import { ${tryCatchImports.join(', ')} } from "${getRuntimeImport(ctx.config, 'tryCatch.ts')}";`,
+		);
+	}
+	const serverErrorImport = buildErrorTypeImport(ctx, serverBody);
+	if (serverErrorImport) serverImportLines.push(serverErrorImport);
+	const callRouteImports = ['callRoute', 'redirectTo'].filter((name) => serverBody.includes(name));
+	if (callRouteImports.length > 0) {
+		serverImportLines.push(
+			`import { ${callRouteImports.join(', ')} } from "${getRuntimeImport(ctx.config, 'callRoute.ts')}";`,
+		);
+	}
+	if (serverBody.includes('RouteRequestOptions')) {
+		serverImportLines.push(
+			`import type { RouteRequestOptions } from "${getRuntimeImport(ctx.config, 'callRoute.ts')}";`,
+		);
+	}
+	if (serverBody.includes('openStream')) {
+		serverImportLines.push(`import { openStream } from "${getRuntimeImport(ctx.config, 'stream.ts')}";`);
+	}
+	if (serverBody.includes('StreamEvent')) {
+		serverImportLines.push(
+			`import type { StreamEvent } from "${getRuntimeImport(ctx.config, 'stream.ts')}";`,
+		);
+	}
+	if (serverBody.includes('readStatusResponse')) {
+		serverImportLines.push(
+			`import { readStatusResponse } from "${getRuntimeImport(ctx.config, 'response.ts')}";`,
+		);
+	}
+	if (serverBody.includes('readRedirect')) {
+		serverImportLines.push(
+			`import { readRedirect } from "${getRuntimeImport(ctx.config, 'redirect.ts')}";`,
+			`import type { RedirectOptions, RedirectResult } from "${getRuntimeImport(ctx.config, 'redirect.ts')}";`,
+		);
+	}
+	if (serverBody.includes('toFormData')) {
+		serverImportLines.push(
+			`import { toFormData } from "${getRuntimeImport(ctx.config, 'formData.ts')}";`,
+		);
+	}
+	if (serverBody.includes('toSearchParams')) {
+		serverImportLines.push(
+			`import { toSearchParams } from "${getRuntimeImport(ctx.config, 'searchParams.ts')}";`,
+		);
+	}
 
 	const serverSdkContents = [
 		'/* Auto-generated API SERVER SDK - do not edit */',
@@ -286,152 +572,199 @@ const generateServerSdk = async (
 		'',
 	].join('\n');
 
-	const serverOutFile = path.resolve(__dirname, '../api/server-sdk.ts');
-	const formattedServerSdk = await formatCode(serverSdkContents, serverOutFile);
-	writeSdkFile(serverOutFile, formattedServerSdk);
-	return serverOutFile;
+	return { path: serverOutFile, contents: await formatCode(ctx, serverSdkContents, serverOutFile) };
 };
 
 /**
- * Writes both client and server SDKs from an in-memory route tree.
+ * Renders every emitted SDK from an in-memory route tree.
+ * @param ctx - The generator context.
+ * @param tree - The route tree.
+ * @returns The generated SDK files.
  */
-async function writeSdks(tree: RouteNode) {
+const renderSdks = async (ctx: GeneratorContext, tree: RouteNode): Promise<GeneratedFile[]> => {
 	const rawImports = collectRouteImports(tree);
 	let combinedImports = combineImports(rawImports);
 	aliasConflictingImports(combinedImports);
 
-	const time = performance.now();
-
-	await Promise.all([
-		(async () => {
-			if (debugMode) console.log(colorString(`[GEN]`, 'magenta') + ' Generating client SDK...');
-			const clientSdkPath = await generateClientSdk(tree, combinedImports);
-			if (debugMode)
-				console.log(colorString(`[GEN]`, 'magenta') + ` Generated client API SDK at ${clientSdkPath}`);
-		})(),
-		(async () => {
-			if (debugMode) console.log(colorString(`[GEN]`, 'magenta') + ' Generating server SDK...');
-			const serverSdkPath = await generateServerSdk(tree, combinedImports);
-			if (debugMode)
-				console.log(colorString(`[GEN]`, 'magenta') + ` Generated server API SDK at ${serverSdkPath}`);
-		})(),
+	const files = await Promise.all([
+		ctx.config.emit.includes('client') ? renderClientSdk(ctx, tree, combinedImports) : undefined,
+		ctx.config.emit.includes('server') ? renderServerSdk(ctx, tree) : undefined,
+		ctx.config.emit.includes('fetch') ? renderFetchClient(ctx, tree, combinedImports) : undefined,
 	]);
+	return files.filter((file): file is GeneratedFile => Boolean(file));
+};
 
-	if (debugMode) console.log(colorString(`[DONE]`, 'green') + ` SDK generation complete in ${Math.round(performance.now() - time)}ms`);
+/**
+ * Writes every emitted SDK from an in-memory route tree.
+ * @param ctx - The generator context.
+ * @param tree - The route tree.
+ * @returns The written SDK files.
+ */
+async function writeSdks(ctx: GeneratorContext, tree: RouteNode): Promise<GeneratedFile[]> {
+	const time = performance.now();
 
+	if (ctx.debug) ctx.logger.info(colorString(`[GEN]`, 'magenta') + ' Generating SDKs...');
+	const files = await renderSdks(ctx, tree);
+	reportDiagnostics(ctx);
+	files.forEach((file) => {
+		writeSdkFile(file.path, file.contents);
+		if (ctx.debug) ctx.logger.info(colorString(`[GEN]`, 'magenta') + ` Generated API SDK at ${file.path}`);
+	});
 
+	if (ctx.debug) ctx.logger.info(colorString(`[DONE]`, 'green') + ` SDK generation complete in ${Math.round(performance.now() - time)}ms`);
+	return files;
 }
 
 /**
- * Handles individual route.ts file events by updating only the affected subtree.
+ * Adds every route file to the project and parses the full route tree.
+ * @param ctx - The generator context.
+ * @returns The parsed route tree.
+ */
+const parseRouteTree = async (ctx: GeneratorContext): Promise<RouteNode> => {
+	const time = performance.now();
+
+	if (ctx.debug) ctx.logger.info(colorString(`[PARSE]`, 'blue') + ' Parsing routes and processing imports...');
+	ctx.project.addSourceFilesAtPaths(ROUTE_FILE_NAMES.map((name) => path.join(ctx.config.appDir, '**', name)));
+	const tree = await parseRoutes(ctx.project, ctx.config.appDir, ctx.diagnostics);
+
+	if (ctx.debug) ctx.logger.info(colorString(`[PARSE]`, 'blue') + ` Parsed routes in ${Math.round(performance.now() - time)}ms`);
+	return tree;
+};
+
+/**
+ * Handles individual route file events by updating only the affected subtree.
+ * @param ctx - The generator context.
+ * @param tree - The current route tree.
+ * @param event - The chokidar event name.
+ * @param filePath - The route file that changed.
+ * @returns The updated route tree.
  */
-async function handleFileEvent(event: string, filePath: string) {
-	const dir = path.dirname(filePath);
+async function handleFileEvent(
+	ctx: GeneratorContext,
+	tree: RouteNode,
+	event: string,
+	filePath: string,
+): Promise<RouteNode> {
+	const { project, config } = ctx;
 
 	if (event === 'add' || event === 'change') {
-		project.addSourceFilesAtPaths(filePath);
+		const existing = project.getSourceFile(filePath);
+		if (existing) await existing.refreshFromFileSystem();
+		else project.addSourceFileAtPath(filePath);
 	} else if (event === 'unlink') {
 		const sf = project.getSourceFile(filePath);
 		if (sf) project.removeSourceFile(sf);
 	}
 
-	const relPath = path.relative(appDir, dir);
-	const segments = relPath.split(path.sep).filter((seg) => seg && !(seg.startsWith('(') && seg.endsWith(')')));
-
-	if (segments.length === 0) {
-		currentTree = await parseRoutes(project, appDir);
-	} else {
-		let parentNode = currentTree!;
-		for (let i = 0; i < segments.length - 1; i++) {
-			const seg = segments[i];
-			const key =
-				seg.startsWith('[...') && seg.endsWith(']')
-					? seg.slice(4, -1)
-					: seg.startsWith('[') && seg.endsWith(']')
-						? seg.slice(1, -1)
-						: seg;
-			parentNode = parentNode.children[key];
-			if (!parentNode) {
-				console.warn(colorString(`[UPDATE]`, 'yellow') + ` Could not find node for ${seg}`);
-				return;
-			}
-		}
-		const lastSeg = segments[segments.length - 1];
-		const key =
-			lastSeg.startsWith('[...') && lastSeg.endsWith(']')
-				? lastSeg.slice(4, -1)
-				: lastSeg.startsWith('[') && lastSeg.endsWith(']')
-					? lastSeg.slice(1, -1)
-					: lastSeg;
-
-		if (event === 'unlink') {
-			delete parentNode.children[key];
-		} else {
-			const newNode = await parseRoutes(project, dir);
-			parentNode.children[key] = newNode;
-		}
-	}
-
-	await writeSdks(currentTree!);
+	return updateRoutes(project, config.appDir, tree, path.dirname(filePath), ctx.diagnostics);
 }
 
 /**
- * Generates the API SDK files.
+ * Parses the route tree for the configured app directory.
+ * @param config - The resolved generator config.
+ * @param options - The generator options.
+ * @returns The parsed route tree.
  */
-const generateSdk = async (): Promise<void> => {
-	const time = performance.now();
+export const loadRouteTree = async (config: ResolvedApiSdkConfig, options: GeneratorOptions = {}): Promise<RouteNode> => {
+	const ctx = await createContext(config, options);
+	const tree = await parseRouteTree(ctx);
+	reportDiagnostics(ctx);
+	return tree;
+};
 
-	if (debugMode) console.log(colorString(`[PARSE]`, 'blue') + ' Parsing routes and processing imports...');
-	// ensure ts-morph knows about all route.ts files when not in watch mode
-	project.addSourceFilesAtPaths(path.join(appDir, '**', 'route.ts'));
-	const tree = await parseRoutes(project, appDir);
-	const rawImports = collectRouteImports(tree);
-	let combinedImports = combineImports(rawImports);
-	aliasConflictingImports(combinedImports);
+/**
+ * Generates the API SDKs in memory without writing anything to disk.
+ * @param options - The generator config, root directory and options.
+ * @returns The generated files, the parsed route tree and any diagnostics.
+ */
+export const generate = async (options: GenerateOptions = {}): Promise<GenerateResult> => {
+	const { rootDir = process.cwd(), debug, logger, ...config } = options;
+	const ctx = await createContext(resolveConfig(config, path.resolve(rootDir)), { debug, logger });
+	const routes = await parseRouteTree(ctx);
+	const files = await renderSdks(ctx, routes);
+	return { files, routes, diagnostics: [...ctx.diagnostics] };
+};
 
-	const treeTime = performance.now();
-	if (debugMode) console.log(colorString(`[PARSE]`, 'blue') + ` Parsed routes in ${Math.round(treeTime - time)}ms`);
+/**
+ * Generates the API SDK files once and writes them to disk.
+ * @param config - The resolved generator config.
+ * @param options - The generator options.
+ * @returns The generated SDK files.
+ */
+export const generateSdk = async (
+	config: ResolvedApiSdkConfig,
+	options: GeneratorOptions = {},
+): Promise<GeneratedFile[]> => {
+	const ctx = await createContext(config, options);
+	const tree = await parseRouteTree(ctx);
+	return writeSdks(ctx, tree);
+};
 
-	await writeSdks(tree);
+/**
+ * Compares freshly generated SDKs against the files on disk.
+ * @param config - The resolved generator config.
+ * @param options - The generator options.
+ * @returns The paths of SDK files that are missing or out of date.
+ */
+export const checkSdk = async (config: ResolvedApiSdkConfig, options: GeneratorOptions = {}): Promise<string[]> => {
+	const ctx = await createContext(config, options);
+	const tree = await parseRouteTree(ctx);
+	const files = await renderSdks(ctx, tree);
+	reportDiagnostics(ctx);
+	return files
+		.filter((file) => !fs.existsSync(file.path) || fs.readFileSync(file.path, 'utf8') !== file.contents)
+		.map((file) => file.path);
 };
 
-if (watchMode) {
-	project.addSourceFilesAtPaths(path.join(appDir, '**', 'route.ts'));
-	currentTree = await parseRoutes(project, appDir);
-	await writeSdks(currentTree);
-	if (debugMode)
-		console.log(
-			colorString(`[DONE]`, 'green') + ' Initial SDK generation complete. Watching for route.ts changes...',
+/**
+ * Generates the API SDK files and regenerates them incrementally whenever a route file changes.
+ * @param config - The resolved generator config.
+ * @param options - The generator options.
+ * @returns The chokidar watcher; close it to stop watching.
+ */
+export const watchSdk = async (
+	config: ResolvedApiSdkConfig,
+	options: GeneratorOptions = {},
+): Promise<chokidar.FSWatcher> => {
+	const ctx = await createContext(config, options);
+	const { debug, logger } = ctx;
+	let currentTree = await parseRouteTree(ctx);
+	await writeSdks(ctx, currentTree);
+	if (debug)
+		logger.info(
+			colorString(`[DONE]`, 'green') + ' Initial SDK generation complete. Watching for route file changes...',
 		);
 
-	const watcher = chokidar.watch(path.join(appDir, '**', 'route.ts'), { persistent: true, ignoreInitial: true });
+	// chokidar v4 no longer expands globs, so watch the app directory and ignore everything but route files
+	const watcher = chokidar.watch(config.appDir, {
+		persistent: true,
+		ignoreInitial: true,
+		ignored: (file, stats) => Boolean(stats?.isFile()) && !isRouteFile(file),
+	});
 
-	watcher.on('add', (f) => debugMode && console.log(colorString(`[FOUND]`, 'green') + ` Route file detected: ${f}`));
+	watcher.on('add', (f) => debug && logger.info(colorString(`[FOUND]`, 'green') + ` Route file detected: ${f}`));
 	watcher.on(
 		'change',
-		(f) => debugMode && console.log(colorString(`[CHANGED]`, 'yellow') + ` Route file changed: ${f}`),
+		(f) => debug && logger.info(colorString(`[CHANGED]`, 'yellow') + ` Route file changed: ${f}`),
 	);
 	watcher.on(
 		'unlink',
-		(f) => debugMode && console.log(colorString(`[REMOVED]`, 'red') + ` Route file removed: ${f}`),
+		(f) => debug && logger.info(colorString(`[REMOVED]`, 'red') + ` Route file removed: ${f}`),
 	);
 
 	watcher.on('all', async (event, f) => {
-		if (debugMode) console.log(colorString(`[REGEN]`, 'magenta') + ` Regenerating SDK due to ${event} on ${f}`);
+		if (event !== 'add' && event !== 'change' && event !== 'unlink') return;
+		if (debug) logger.info(colorString(`[REGEN]`, 'magenta') + ` Regenerating SDK due to ${event} on ${f}`);
 		const time = performance.now();
-		await handleFileEvent(event, f);
-		if (debugMode) console.log(colorString(`[REGEN]`, 'magenta') + ` Regenerated SDK in ${Math.round(performance.now() - time)}ms`);
+		try {
+			currentTree = await handleFileEvent(ctx, currentTree, event, f);
+			await writeSdks(ctx, currentTree);
+		} catch (error) {
+			logger.error(colorString(`[ERROR]`, 'red') + ' Failed to regenerate SDK:', error);
+			return;
+		}
+		if (debug) logger.info(colorString(`[REGEN]`, 'magenta') + ` Regenerated SDK in ${Math.round(performance.now() - time)}ms`);
 	});
-} else {
-	generateSdk()
-		.then(() => {
-			if (debugMode)
-				console.log(
-					colorString(`[DONE]`, 'green') + ' SDK generation complete. Run with --watch to enable hot reloading.',
-				);
-		})
-		.catch((error) => {
-			console.error(colorString(`[ERROR]`, 'red') + ' Failed to generate SDK:', error);
-			process.exit(1);
-		});
-}
+
+	return watcher;
+};
@@ -0,0 +1,162 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { parseArgs } from 'util';
+import { fileURLToPath } from 'url';
+import { colorString } from '../utils/general.ts';
+import { loadConfig } from './api-sdk-utils/config.ts';
+import { listRoutes, formatRouteTable } from './api-sdk-utils/route-table.ts';
+import { generateSdk, checkSdk, watchSdk, loadRouteTree } from './api-sdk.ts';
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = path.dirname(__filename);
+
+/**
+ * Exit codes returned by the CLI.
+ */
+const EXIT_CODES = {
+	success: 0,
+	failure: 1,
+	usage: 2,
+} as const;
+
+const COMMANDS = {
+	generate: 'Generate the client and server SDKs once',
+	watch: 'Generate the SDKs and regenerate them whenever a route file changes',
+	check: 'Exit with a non-zero code if the SDKs on disk are missing or stale',
+	routes: 'Print a table of every discovered route, method, hook, input type and output type',
+} as const;
+
+type Command = keyof typeof COMMANDS;
+
+const HELP_TEXT = `Usage: app-router-sdk <command> [options]
+
+Commands:
+${Object.entries(COMMANDS)
+	.map(([name, description]) => `  ${name.padEnd(10)}${description}`)
+	.join('\n')}
+
+Options:
+  -c, --config <path>  Path to the config file (defaults to ./api-sdk.config.ts)
+  -d, --debug          Print detailed progress output
+      --json           Print the routes table as JSON (routes only)
+  -h, --help           Show this help
+  -v, --version        Show the version number
+`;
+
+/**
+ * Reads the package version from package.json.
+ * @returns The version string.
+ */
+const readVersion = (): string => {
+	const pkg = JSON.parse(fs.readFileSync(path.resolve(__dirname, '../package.json'), 'utf8'));
+	return pkg.version;
+};
+
+/**
+ * Prints a usage error with the help text and returns the usage exit code.
+ * @param message - The error message.
+ * @returns The usage exit code.
+ */
+const usageError = (message: string): number => {
+	console.error(colorString(`[ERROR]`, 'red') + ` ${message}\n`);
+	console.error(HELP_TEXT);
+	return EXIT_CODES.usage;
+};
+
+/**
+ * Parses the CLI arguments, rejecting unknown options.
+ * @param argv - The command-line arguments.
+ * @returns The parsed option values and positionals.
+ */
+function parseCliArgs(argv: string[]) {
+	return parseArgs({
+		args: argv,
+		allowPositionals: true,
+		strict: true,
+		options: {
+			config: { type: 'string', short: 'c' },
+			debug: { type: 'boolean', short: 'd' },
+			json: { type: 'boolean' },
+			help: { type: 'boolean', short: 'h' },
+			version: { type: 'boolean', short: 'v' },
+		},
+	});
+}
+
+/**
+ * Runs the CLI with the given arguments.
+ * @param argv - The command-line arguments, without the node and script paths.
+ * @returns The process exit code.
+ */
+const run = async (argv: string[]): Promise<number> => {
+	let parsed: ReturnType<typeof parseCliArgs>;
+	try {
+		parsed = parseCliArgs(argv);
+	} catch (error) {
+		return usageError((error as Error).message);
+	}
+	const { values, positionals } = parsed;
+
+	if (values.version) {
+		console.log(readVersion());
+		return EXIT_CODES.success;
+	}
+	if (values.help || positionals.length === 0) {
+		console.log(HELP_TEXT);
+		return values.help ? EXIT_CODES.success : EXIT_CODES.usage;
+	}
+
+	const [command, ...rest] = positionals;
+	if (!(command in COMMANDS)) return usageError(`Unknown command: ${command}`);
+	if (rest.length > 0) return usageError(`Unexpected argument: ${rest[0]}`);
+
+	const debug = values.debug ?? false;
+	const config = await loadConfig(values.config);
+	if (debug && config.configFilePath)
+		console.log(colorString(`[CONFIG]`, 'cyan') + ` Loaded config from ${config.configFilePath}`);
+
+	switch (command as Command) {
+		case 'generate': {
+			await generateSdk(config, { debug });
+			if (debug)
+				console.log(
+					colorString(`[DONE]`, 'green') + ' SDK generation complete. Run `watch` to enable hot reloading.',
+				);
+			return EXIT_CODES.success;
+		}
+		case 'watch': {
+			const watcher = await watchSdk(config, { debug });
+			const stop = () => {
+				void watcher.close().then(() => process.exit(EXIT_CODES.success));
+			};
+			process.once('SIGINT', stop);
+			process.once('SIGTERM', stop);
+			return new Promise<number>(() => {});
+		}
+		case 'check': {
+			const stale = await checkSdk(config, { debug });
+			if (stale.length === 0) {
+				console.log(colorString(`[CHECK]`, 'green') + ' SDK is up to date.');
+				return EXIT_CODES.success;
+			}
+			stale.forEach((file) =>
+				console.error(colorString(`[CHECK]`, 'red') + ` ${path.relative(process.cwd(), file)} is stale or missing`),
+			);
+			console.error(colorString(`[CHECK]`, 'red') + ' Run `app-router-sdk generate` to update it.');
+			return EXIT_CODES.failure;
+		}
+		case 'routes': {
+			const tree = await loadRouteTree(config, { debug });
+			const rows = listRoutes(tree);
+			console.log(values.json ? JSON.stringify(rows, null, 2) : formatRouteTable(rows));
+			return EXIT_CODES.success;
+		}
+	}
+};
+
+run(process.argv.slice(2))
+	.then((code) => process.exit(code))
+	.catch((error) => {
+		console.error(colorString(`[ERROR]`, 'red') + ' Failed to generate SDK:', error);
+		process.exit(EXIT_CODES.failure);
+	});
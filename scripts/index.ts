@@ -0,0 +1,15 @@
+export { generate, generateSdk, checkSdk, watchSdk, loadRouteTree } from './api-sdk.ts';
+export type { GenerateOptions, GenerateResult, GeneratorOptions } from './api-sdk.ts';
+export { defineConfig, loadConfig, resolveConfig } from './api-sdk-utils/config.ts';
+export type { ApiSdkConfig, ResolvedApiSdkConfig, KeyCasing, SdkOutput } from './api-sdk-utils/config.ts';
+export type { HookBackend } from './api-sdk-utils/hook-backends.ts';
+export { listRoutes, formatRouteTable } from './api-sdk-utils/route-table.ts';
+export type { RouteTableRow } from './api-sdk-utils/route-table.ts';
+export type {
+	RouteNode,
+	MethodInfo,
+	ImportDeclarationInfo,
+	GeneratedFile,
+	GeneratorDiagnostic,
+	GeneratorLogger,
+} from './api-sdk-utils/types.ts';
@@ -0,0 +1,93 @@
+import type { NextConfig } from 'next';
+import { PHASE_DEVELOPMENT_SERVER, PHASE_PRODUCTION_BUILD } from 'next/constants';
+import * as Log from 'next/dist/build/output/log';
+import { generateSdk, watchSdk } from './api-sdk.ts';
+import { resolveConfig } from './api-sdk-utils/config.ts';
+import type { ApiSdkConfig } from './api-sdk-utils/config.ts';
+import type { GeneratorLogger } from './api-sdk-utils/types.ts';
+
+/**
+ * Options for {@link withAppRouterSdk}: the same options as `api-sdk.config.ts`, plus the root directory
+ * relative paths are resolved against (defaults to the current working directory).
+ */
+export interface WithAppRouterSdkOptions extends ApiSdkConfig {
+	rootDir?: string;
+	debug?: boolean;
+}
+
+type NextConfigContext = { defaultConfig: NextConfig };
+type NextConfigFunction = (phase: string, context: NextConfigContext) => NextConfig | Promise<NextConfig>;
+
+// Next loads the config several times per command: in the CLI process, in `next dev`'s server worker
+// (marked by NEXT_PRIVATE_WORKER) and in build workers, which inherit the environment. The flags also live on
+// globalThis because Next can reset process.env between loads in the same process.
+const BUILD_FLAG = '__APP_ROUTER_SDK_GENERATED';
+const WATCH_FLAG = '__APP_ROUTER_SDK_WATCHING';
+const state = globalThis as typeof globalThis & Partial<Record<typeof BUILD_FLAG | typeof WATCH_FLAG, boolean>>;
+
+/**
+ * Checks and sets a run-once flag.
+ * @param flag - The flag to claim.
+ * @returns Whether this call claimed the flag.
+ */
+const claimFlag = (flag: typeof BUILD_FLAG | typeof WATCH_FLAG): boolean => {
+	if (state[flag] || process.env[flag] || process.env.NEXT_PRIVATE_WORKER) return false;
+	state[flag] = true;
+	process.env[flag] = '1';
+	return true;
+};
+
+const PACKAGE_NAME = 'app-router-sdk';
+
+/**
+ * Checks whether the running command is `next build`. `next lint` and `next experimental-test` load the config
+ * with the production build phase too, and must not regenerate the SDK.
+ * @returns True when the Next.js CLI was started with the `build` command.
+ */
+const isNextBuild = (): boolean => process.argv.slice(2).find((arg) => !arg.startsWith('-')) === 'build';
+
+const nextLogger: GeneratorLogger = {
+	info: (message) => Log.info(message),
+	warn: (message) => Log.warn(message),
+	error: (message, error) => (error === undefined ? Log.error(message) : Log.error(message, error)),
+};
+
+/**
+ * Wraps a Next.js config so the API SDK is generated before `next build` and kept up to date by the
+ * incremental watcher during `next dev`. Works with both webpack and Turbopack, as it does not touch the bundler.
+ * @param nextConfig - The Next.js config object or config function to wrap.
+ * @param options - The generator options.
+ * @returns A Next.js config function.
+ */
+export function withAppRouterSdk(
+	nextConfig: NextConfig | NextConfigFunction = {},
+	options: WithAppRouterSdkOptions = {},
+): NextConfigFunction {
+	const { rootDir = process.cwd(), debug = false, ...sdkConfig } = options;
+
+	return async (phase, context) => {
+		const resolvedNextConfig = typeof nextConfig === 'function' ? await nextConfig(phase, context) : nextConfig;
+		const config = resolveConfig(sdkConfig, rootDir);
+
+		if (phase === PHASE_PRODUCTION_BUILD && isNextBuild() && claimFlag(BUILD_FLAG)) {
+			const files = await generateSdk(config, { debug, logger: nextLogger });
+			Log.info(`Generated API SDK (${files.length} ${files.length === 1 ? 'file' : 'files'})`);
+		}
+
+		if (phase === PHASE_DEVELOPMENT_SERVER && claimFlag(WATCH_FLAG)) {
+			try {
+				await watchSdk(config, { debug, logger: nextLogger });
+				Log.info('Watching route files for API SDK changes');
+			} catch (error) {
+				Log.error('Failed to generate API SDK:', error);
+			}
+		}
+
+		if (sdkConfig.runtimeImportPath !== undefined) return resolvedNextConfig;
+		// the runtime helpers the generated files import by default ship as TypeScript
+		const transpilePackages = resolvedNextConfig.transpilePackages ?? [];
+		return transpilePackages.includes(PACKAGE_NAME)
+			? resolvedNextConfig
+			: { ...resolvedNextConfig, transpilePackages: [...transpilePackages, PACKAGE_NAME] };
+	};
+}
@@ -0,0 +1,133 @@
+import { describe, it, beforeEach } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { apiFetch, configureApiClient, withSignal } from '../utils/apiClient.ts';
+import type { ApiRequest } from '../utils/apiClient.ts';
+
+// A generated request. The app's routes are registered on ApiRoutes, so a made-up one is cast
+const request = (method: string): ApiRequest =>
+	({ route: '/items', method, url: '/items', init: { method }, inputs: { params: {} } }) as unknown as ApiRequest;
+
+// Stubs fetch with responses returned in turn, recording the init of every call
+const stubFetch = (...responses: (() => Promise<Response>)[]) => {
+	const calls: RequestInit[] = [];
+	configureApiClient({
+		fetch: async (_input, init = {}) => {
+			calls.push(init);
+			return responses[Math.min(calls.length, responses.length) - 1]();
+		},
+	});
+	return calls;
+};
+
+const respond = (status: number) => async () => new Response(null, { status });
+
+describe('apiFetch', () => {
+	beforeEach(() => configureApiClient({ fetch: undefined, retry: 2, retryDelay: 1, timeout: undefined }));
+
+	it('retries retryable statuses of idempotent methods', async () => {
+		const calls = stubFetch(respond(503), respond(429), respond(200));
+		const res = await apiFetch(request('GET'));
+		assert.equal(res.status, 200);
+		assert.equal(calls.length, 3);
+	});
+
+	it('returns the last response once the retries run out', async () => {
+		const calls = stubFetch(respond(503));
+		const res = await apiFetch(request('PUT'));
+		assert.equal(res.status, 503);
+		assert.equal(calls.length, 3);
+	});
+
+	it('does not retry other statuses', async () => {
+		const calls = stubFetch(respond(404), respond(200));
+		const res = await apiFetch(request('GET'));
+		assert.equal(res.status, 404);
+		assert.equal(calls.length, 1);
+	});
+
+	it('does not apply the configured retry to non-idempotent methods', async () => {
+		const calls = stubFetch(respond(503), respond(200));
+		const res = await apiFetch(request('POST'));
+		assert.equal(res.status, 503);
+		assert.equal(calls.length, 1);
+	});
+
+	it('retries non-idempotent methods when the call asks for it', async () => {
+		const calls = stubFetch(respond(503), respond(200));
+		const res = await apiFetch(request('POST'), { retry: 1 });
+		assert.equal(res.status, 200);
+		assert.equal(calls.length, 2);
+	});
+
+	it('aborts an attempt when the timeout fires, and retries it', async () => {
+		const calls: RequestInit[] = [];
+		configureApiClient({
+			fetch: (_input, init = {}) => {
+				calls.push(init);
+				if (calls.length > 1) return respond(200)();
+				return new Promise((_resolve, reject) => init.signal?.addEventListener('abort', () => reject(init.signal?.reason)));
+			},
+		});
+		const res = await apiFetch(request('GET'), { timeout: 10 });
+		assert.equal(res.status, 200);
+		assert.equal(calls.length, 2);
+		assert.equal((calls[0].signal?.reason as DOMException).name, 'TimeoutError');
+	});
+
+	it('rejects with a TimeoutError once the retries run out', async () => {
+		configureApiClient({
+			fetch: (_input, init = {}) =>
+				new Promise((_resolve, reject) => init.signal?.addEventListener('abort', () => reject(init.signal?.reason))),
+		});
+		await assert.rejects(apiFetch(request('GET'), { retry: 0, timeout: 10 }), { name: 'TimeoutError' });
+	});
+
+	it('stops retrying when the caller aborts', async () => {
+		const controller = new AbortController();
+		const calls = stubFetch(async () => {
+			controller.abort(new Error('cancelled'));
+			throw new TypeError('Network request failed');
+		});
+		await assert.rejects(apiFetch(request('GET'), { signal: controller.signal, retryDelay: 1000 }), { message: 'Network request failed' });
+		assert.equal(calls.length, 1);
+	});
+
+	it('stops waiting for a retry when the caller aborts', async () => {
+		const controller = new AbortController();
+		const calls = stubFetch(respond(503));
+		const pending = apiFetch(request('GET'), { signal: controller.signal, retryDelay: 1000 });
+		setTimeout(() => controller.abort(new Error('cancelled')), 10);
+		await assert.rejects(pending, { message: 'cancelled' });
+		assert.equal(calls.length, 1);
+	});
+
+	it('cancels the bodies of the responses it retries', async () => {
+		let cancelled = false;
+		const body = new ReadableStream({
+			cancel: () => {
+				cancelled = true;
+			},
+		});
+		stubFetch(async () => new Response(body, { status: 503 }), respond(200));
+		const res = await apiFetch(request('GET'));
+		assert.equal(res.status, 200);
+		assert.equal(cancelled, true);
+	});
+});
+
+describe('withSignal', () => {
+	it('passes a single signal through', () => {
+		const controller = new AbortController();
+		assert.equal(withSignal(undefined, controller.signal).signal, controller.signal);
+		assert.equal(withSignal({ signal: controller.signal }, undefined).signal, controller.signal);
+	});
+
+	it('aborts when either signal does', () => {
+		const [first, second] = [new AbortController(), new AbortController()];
+		const { signal } = withSignal({ signal: first.signal, retry: 1 }, second.signal);
+		assert.equal(signal?.aborted, false);
+		second.abort('unmounted');
+		assert.equal(signal?.aborted, true);
+		assert.equal(signal?.reason, 'unmounted');
+	});
+});
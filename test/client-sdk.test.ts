@@ -0,0 +1,47 @@
+import { describe, it, before, after } from 'node:test';
+import * as assert from 'node:assert/strict';
+import * as fs from 'node:fs';
+import * as path from 'node:path';
+import { fileURLToPath, pathToFileURL } from 'node:url';
+import { QueryClient } from '@tanstack/react-query';
+import { generate } from '../scripts/index.ts';
+import { configureApiClient } from '../utils/apiClient.ts';
+
+const packageRoot = path.resolve(path.dirname(fileURLToPath(import.meta.url)), '..');
+const fixtureDir = path.join(packageRoot, 'test', 'fixtures', 'empty-body');
+
+// Runs the generated SDKs of a fixture: they are written next to it, so their imports resolve like in an app
+describe('generated client SDK', () => {
+	let outDir: string;
+	// eslint-disable-next-line @typescript-eslint/no-explicit-any
+	let API: any;
+
+	before(async () => {
+		const { files } = await generate({
+			rootDir: fixtureDir,
+			tsConfigFilePath: path.join(packageRoot, 'tsconfig.json'),
+			prettierConfigPath: path.join(packageRoot, '.prettierrc'),
+		});
+		outDir = await fs.promises.mkdtemp(path.join(fixtureDir, 'generated-'));
+		await Promise.all(files.map((file) => fs.promises.writeFile(path.join(outDir, path.basename(file.path)), file.contents)));
+		({ API } = await import(pathToFileURL(path.join(outDir, 'client-sdk.ts')).href));
+	});
+
+	after(async () => {
+		configureApiClient({ fetch: undefined });
+		if (outDir) await fs.promises.rm(outDir, { recursive: true, force: true });
+	});
+
+	it('resolves a query of an empty response to null', async () => {
+		configureApiClient({ fetch: async () => new Response(null, { status: 204 }) });
+		const data = await new QueryClient().fetchQuery(API.PING.GET.options());
+		assert.equal(data, null);
+	});
+
+	it('resolves a query of a HEAD request to its status and headers', async () => {
+		configureApiClient({ fetch: async () => new Response(null, { headers: { 'x-version': '1' } }) });
+		const data: { status: number; headers: Headers } = await new QueryClient().fetchQuery(API.PING.HEAD.options());
+		assert.equal(data.status, 200);
+		assert.equal(data.headers.get('x-version'), '1');
+	});
+});
@@ -0,0 +1 @@
+export const GET = () => Response.json({ source: 'app' });
@@ -0,0 +1 @@
+export const GET = () => Response.json({ ok: true });
@@ -0,0 +1,7 @@
+import { NextRequest, NextResponse } from 'next/server';
+
+export async function GET(req: NextRequest, { params }: { params: Promise<{ postId: string }> }) {
+	const { postId } = await params;
+	if (postId === '0') return NextResponse.json({ error: 'Not found' }, { status: 404 });
+	return NextResponse.json({ id: postId });
+}
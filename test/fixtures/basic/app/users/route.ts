@@ -0,0 +1,10 @@
+import { NextResponse } from 'next/server';
+
+export async function GET() {
+	return NextResponse.json({ users: ['ada'] });
+}
+
+export async function POST(req: Request) {
+	const body: { name: string } = await req.json();
+	return NextResponse.json({ name: body.name }, { status: 201 });
+}
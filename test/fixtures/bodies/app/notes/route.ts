@@ -0,0 +1,6 @@
+import { NextRequest, NextResponse } from 'next/server';
+
+export async function POST(req: NextRequest) {
+	const { title, tags: labels, ...rest } = await req.json();
+	return NextResponse.json({ title, labels, rest });
+}
@@ -0,0 +1,9 @@
+import { NextRequest, NextResponse } from 'next/server';
+
+export async function PUT(req: NextRequest) {
+	const payload = await req.json();
+	const { name } = payload;
+	// other json() calls aren't the request body
+	const { version } = await fetch('https://example.com/version').then((res) => res.json());
+	return NextResponse.json({ name, version });
+}
@@ -0,0 +1,11 @@
+export async function GET() {
+	return new Response(null, { status: 204 });
+}
+
+export async function HEAD() {
+	return new Response(null, { headers: { 'x-version': '1' } });
+}
+
+export async function OPTIONS() {
+	return Response.json({ methods: ['GET', 'HEAD', 'OPTIONS'] });
+}
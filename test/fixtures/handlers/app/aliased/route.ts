@@ -0,0 +1,3 @@
+import { list } from '../../lib/handlers';
+
+export { list as POST };
@@ -0,0 +1 @@
+export { GET } from '../../lib/handlers';
@@ -0,0 +1,9 @@
+import { NextResponse } from 'next/server';
+import { withAuth } from '../../lib/handlers';
+
+export const GET = withAuth(async (req, user) => NextResponse.json({ userId: user.id }));
+
+export const PUT = withAuth(async (req) => {
+	const body: { name: string } = await req.json();
+	return NextResponse.json({ name: body.name });
+});
@@ -0,0 +1,19 @@
+import { NextResponse } from 'next/server';
+
+export async function GET() {
+	return NextResponse.json({ id: 1 });
+}
+
+export async function list(req: Request) {
+	const body: { ids: number[] } = await req.json();
+	return NextResponse.json({ items: body.ids });
+}
+
+// Calls the handler with the signed-in user, or responds 401
+export const withAuth =
+	<T>(handler: (req: Request, user: { id: string }) => Promise<T>) =>
+	async (req: Request) => {
+		const token = req.headers.get('authorization');
+		if (!token) return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+		return handler(req, { id: token });
+	};
@@ -0,0 +1,2 @@
+/** @returns {Promise<Response>} */
+export const GET = async () => Response.json({ ok: true, uptime: process.uptime() });
@@ -0,0 +1,14 @@
+import { NextResponse } from 'next/server';
+
+/** @param {import('next/server').NextRequest} req */
+export async function GET(req) {
+	const status = req.nextUrl.searchParams.get('status');
+	return NextResponse.json({ todos: [{ title: 'Write tests', status }] });
+}
+
+/** @param {Request} req */
+export async function POST(req) {
+	/** @type {{ title: string; done?: boolean }} */
+	const body = await req.json();
+	return NextResponse.json({ id: 1, title: body.title }, { status: 201 });
+}
@@ -0,0 +1,10 @@
+import type { NextRequest } from 'next/server';
+import type { InfiniteContract } from 'app-router-sdk/utils/infinite.ts';
+
+export type Infinite = InfiniteContract<{ GET: { param: 'after'; next: 'continuation'; initial: 'start' } }>;
+
+export async function GET(req: NextRequest) {
+	'use infinite';
+	const after = req.nextUrl.searchParams.get('after');
+	return Response.json({ items: [after], continuation: after === 'end' ? null : 'end' });
+}
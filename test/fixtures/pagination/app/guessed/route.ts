@@ -0,0 +1,7 @@
+import type { NextRequest } from 'next/server';
+
+export async function GET(req: NextRequest) {
+	'use infinite';
+	const after = req.nextUrl.searchParams.get('after');
+	return Response.json({ items: [after], nextCursor: after === 'end' ? null : 'end' });
+}
@@ -0,0 +1,4 @@
+export async function GET() {
+	'use infinite';
+	return Response.json({ items: [] });
+}
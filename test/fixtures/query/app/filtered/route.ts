@@ -0,0 +1,13 @@
+import { NextResponse } from 'next/server';
+import type { NextRequest } from 'next/server';
+import { z } from 'zod';
+
+const filterSchema = z.object({
+	q: z.string(),
+	limit: z.coerce.number().optional(),
+});
+
+export async function GET(req: NextRequest) {
+	const filter = filterSchema.parse(Object.fromEntries(req.nextUrl.searchParams));
+	return NextResponse.json({ results: [filter.q] });
+}
@@ -0,0 +1,12 @@
+import { NextResponse } from 'next/server';
+import type { NextRequest } from 'next/server';
+
+export async function GET(req: NextRequest) {
+	const { searchParams } = req.nextUrl;
+	const term = searchParams.get('term');
+	if (!term) return NextResponse.json({ error: 'term is required' }, { status: 400 });
+	const tags = searchParams.getAll('tag');
+	const drafts = searchParams.has('drafts');
+	const page = Number(searchParams.get('page')!);
+	return NextResponse.json({ term, tags, drafts, page });
+}
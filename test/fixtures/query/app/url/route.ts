@@ -0,0 +1,4 @@
+export async function GET(req: Request) {
+	const lang = new URL(req.url).searchParams.get('lang') ?? 'en';
+	return Response.json({ lang });
+}
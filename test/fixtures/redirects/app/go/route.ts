@@ -0,0 +1,10 @@
+import { NextRequest, NextResponse } from 'next/server';
+
+export async function GET() {
+	return NextResponse.redirect('https://example.com');
+}
+
+export async function PUT(req: NextRequest) {
+	const next = req.nextUrl.searchParams.get('next') ?? '/';
+	return NextResponse.redirect(new URL(next, req.url), 308);
+}
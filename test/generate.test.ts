@@ -0,0 +1,214 @@
+import { describe, it } from 'node:test';
+import * as assert from 'node:assert/strict';
+import * as path from 'node:path';
+import { fileURLToPath } from 'node:url';
+import { generate } from '../scripts/index.ts';
+import type { GenerateOptions, GeneratorLogger } from '../scripts/index.ts';
+
+const packageRoot = path.resolve(path.dirname(fileURLToPath(import.meta.url)), '..');
+const fixturesDir = path.join(packageRoot, 'test', 'fixtures');
+
+// Generates a fixture's SDKs with the repo's tsconfig and Prettier config
+const generateFixture = (name: string, options: GenerateOptions = {}) =>
+	generate({
+		rootDir: path.join(fixturesDir, name),
+		tsConfigFilePath: path.join(packageRoot, 'tsconfig.json'),
+		prettierConfigPath: path.join(packageRoot, '.prettierrc'),
+		...options,
+	});
+
+const getFile = (files: { path: string; contents: string }[], name: string): string => {
+	const file = files.find((candidate) => path.basename(candidate.path) === name);
+	assert.ok(file, `${name} was not generated`);
+	return file.contents;
+};
+
+describe('generate', () => {
+	it('emits every SDK in memory', async () => {
+		const { files } = await generateFixture('basic');
+		assert.deepEqual(files.map((file) => path.relative(path.join(fixturesDir, 'basic'), file.path)).sort(), [
+			path.join('api', 'client-sdk.ts'),
+			path.join('api', 'fetch-client.ts'),
+			path.join('api', 'server-sdk.ts'),
+		]);
+	});
+
+	it('emits only the requested SDKs', async () => {
+		const { files } = await generateFixture('basic', { emit: ['fetch'] });
+		assert.deepEqual(files.map((file) => path.basename(file.path)), ['fetch-client.ts']);
+	});
+
+	it('parses the route tree', async () => {
+		const { routes } = await generateFixture('basic');
+		assert.deepEqual(Object.keys(routes.children).sort(), ['empty', 'health', 'posts', 'users']);
+		assert.deepEqual(routes.children.users.methods.map((method) => method.name), ['GET', 'POST']);
+		assert.deepEqual(routes.children.health.routePath, ['api', 'health']);
+		assert.equal(
+			routes.children.posts.children.postId.methods[0].errorType,
+			'HttpError<404, { error: string; }> | UnexpectedHttpError<404> | RequestError',
+		);
+	});
+
+	it('keeps the api folder under its own key when it clashes with a top-level route', async () => {
+		const { routes, diagnostics } = await generateFixture('api-clash');
+		assert.deepEqual(Object.keys(routes.children).sort(), ['api', 'users']);
+		assert.deepEqual(routes.children.users.routePath, ['users']);
+		assert.deepEqual(routes.children.api.children.users.routePath, ['api', 'users']);
+		assert.match(diagnostics[0].message, /clash with top-level routes \(users\)/);
+	});
+
+	it('reports route files without handlers', async () => {
+		const { diagnostics } = await generateFixture('basic');
+		assert.deepEqual(
+			diagnostics.map(({ severity, message, file }) => ({ severity, message, file: path.relative(fixturesDir, file ?? '') })),
+			[{ severity: 'warning', message: 'No route handlers found', file: path.join('basic', 'app', 'empty', 'route.ts') }],
+		);
+	});
+
+	it('types request bodies and responses', async () => {
+		const { files } = await generateFixture('basic');
+		const fetchClient = getFile(files, 'fetch-client.ts');
+		assert.match(fetchClient, /body: \{ name: string;? \}/);
+		assert.match(fetchClient, /url: `\/api\/health`/);
+		assert.match(fetchClient, /POSTID: \(postId: string\) => \(\{/);
+	});
+
+	it('types re-exported and wrapped handlers', async () => {
+		const { routes, diagnostics } = await generateFixture('handlers');
+		const types = (key: string) => routes.children[key].methods.map(({ name, inputType, returnType }) => ({ name, inputType, returnType }));
+		assert.deepEqual(types('reexported'), [{ name: 'GET', inputType: 'void', returnType: '{ id: number; }' }]);
+		assert.deepEqual(types('aliased'), [{ name: 'POST', inputType: '{ ids: number[]; }', returnType: '{ items: number[]; }' }]);
+		assert.deepEqual(types('wrapped'), [
+			{ name: 'GET', inputType: 'void', returnType: '{ userId: string; }' },
+			{ name: 'PUT', inputType: '{ name: string; }', returnType: '{ name: string; }' },
+		]);
+		assert.deepEqual(diagnostics, []);
+	});
+
+	it('types the query from the searchParams a handler reads and from zod schemas', async () => {
+		const { routes, files } = await generateFixture('query');
+		const query = (key: string) => {
+			const [{ queryType, queryRequired }] = routes.children[key].methods;
+			return { queryType, queryRequired };
+		};
+		assert.deepEqual(query('search'), {
+			queryType: '{ term: string; tag?: string[]; drafts?: string; page: string }',
+			queryRequired: true,
+		});
+		assert.deepEqual(query('filtered'), { queryType: '{ q: string; limit?: number | undefined; }', queryRequired: true });
+		assert.deepEqual(query('url'), { queryType: '{ lang?: string }', queryRequired: false });
+		assert.deepEqual(query('plain'), { queryType: undefined, queryRequired: undefined });
+		assert.match(getFile(files, 'fetch-client.ts'), /GET: \(\{ searchParams \}: \{ searchParams\?: Record<string, string> \} = \{\}/);
+	});
+
+	it('types JavaScript route handlers from their JSDoc', async () => {
+		const { routes, files } = await generateFixture('javascript');
+		const [get, post] = routes.children.todos.methods;
+		assert.equal(get.queryType, '{ status?: string }');
+		assert.equal(get.returnType, '{ todos: { title: string; status: string | null; }[]; }');
+		assert.equal(post.inputType, '{ title: string; done?: boolean | undefined; }');
+		assert.equal(post.successType, '{ status: 201; data: { id: number; title: string; } }');
+		assert.equal(routes.children.health.methods[0].returnType, '{ ok: boolean; uptime: number; }');
+		assert.match(getFile(files, 'server-sdk.ts'), /import \* as Route_todos from '\.\.\/app\/todos\/route\.js';/);
+	});
+
+	it('types successful results by status', async () => {
+		const { routes, files } = await generateFixture('basic');
+		const [, post] = routes.children.users.methods;
+		assert.equal(post.successType, '{ status: 201; data: { name: string; } }');
+		assert.match(getFile(files, 'fetch-client.ts'), /readStatusResponse<\{ status: 201; data: \{ name: string;? \} \}>/);
+	});
+
+	it('reads HEAD and OPTIONS with queries, and resolves HEAD to its status and headers', async () => {
+		const { routes } = await generateFixture('empty-body');
+		const methods = routes.children.ping.methods.map(({ name, hook, returnType }) => ({ name, hook, returnType }));
+		assert.deepEqual(methods, [
+			{ name: 'GET', hook: 'query', returnType: 'null' },
+			{ name: 'HEAD', hook: 'query', returnType: '{ status: number; headers: Headers }' },
+			{ name: 'OPTIONS', hook: 'query', returnType: '{ methods: string[]; }' },
+		]);
+	});
+
+	it('passes the request option of query hooks to the fetch client with the query signal', async () => {
+		const { files } = await generateFixture('basic');
+		const clientSdk = getFile(files, 'client-sdk.ts');
+		assert.match(clientSdk, /options\?: Omit<[^]*?> & \{ request\?: RequestOptions \}/);
+		assert.match(clientSdk, /queryFn: \(\{ signal \}\) => fetcher\(withSignal\(request, signal\), \{ searchParams \}\)/);
+	});
+
+	it('passes the request option of mutate() over the one given to the mutation hook', async () => {
+		const { files } = await generateFixture('basic');
+		const clientSdk = getFile(files, 'client-sdk.ts');
+		assert.match(clientSdk, /const \{\s*request: callRequest,\s*\.\.\.requestOptions\s*\} = variables;/);
+		assert.match(clientSdk, /FetchAPI\.USERS\.POST\(requestOptions, \{ \.\.\.request, \.\.\.callRequest \}\)/);
+	});
+
+	it('registers the inputs of every route for client middleware', async () => {
+		const { files } = await generateFixture('basic');
+		const fetchClient = getFile(files, 'fetch-client.ts');
+		assert.match(fetchClient, /declare module 'app-router-sdk\/utils\/apiClient\.ts' \{\s+interface ApiRoutes \{/);
+		assert.match(fetchClient, /'\/posts\/\[postId\]': \{ GET: \{ params: \{ postId: string \}; searchParams\?: Record<string, string> \} \};/);
+	});
+
+	it('reads redirects manually and warns about computed targets of methods other than GET', async () => {
+		const { files, diagnostics } = await generateFixture('redirects', { emit: ['fetch'] });
+		const fetchClient = getFile(files, 'fetch-client.ts');
+		assert.match(fetchClient, /init: \{ method: 'GET', redirect: 'manual' \}[^]*readRedirect\(res, \{ location: 'https:\/\/example\.com', status: 307 \}\)/);
+		assert.match(fetchClient, /init: \{ method: 'PUT', redirect: 'manual' \}[^]*\.then\(readRedirect\)/);
+		assert.doesNotMatch(fetchClient, /redirect: 'follow'/);
+		assert.deepEqual(diagnostics.map(({ severity, message }) => ({ severity, message: message.split(',')[0] })), [
+			{ severity: 'warning', message: 'PUT computes its redirect target' },
+		]);
+	});
+
+	it('reads the pagination contract a route declares and rejects endpoints whose contract it would have to guess', async () => {
+		const { routes, diagnostics } = await generateFixture('pagination');
+		assert.deepEqual(routes.children.contract.methods[0].pagination, {
+			param: 'after',
+			cursorType: 'string',
+			initialCursor: '"start"',
+			nextField: 'continuation',
+			previousField: undefined,
+		});
+		assert.deepEqual(routes.children.guessed.methods, []);
+		assert.deepEqual(routes.children.uncursored.methods, []);
+		assert.deepEqual(diagnostics.map(({ severity, message }) => ({ severity, message: message.split(',')[0] })), [
+			{ severity: 'error', message: "GET uses 'use infinite' but its handler reads neither the `cursor` nor the `pagination` query parameter for the cursor" },
+			{ severity: 'error', message: "GET uses 'use infinite' but its response has no next page cursor such as `nextPage`" },
+		]);
+	});
+
+	it('detects the JSON body keys a handler destructures', async () => {
+		const { routes } = await generateFixture('bodies', { emit: ['fetch'] });
+		const [notes] = routes.children.notes.methods;
+		const [tags] = routes.children.tags.methods;
+		assert.deepEqual(notes.bodyParams, ['title', 'tags']);
+		assert.equal(tags.bodyVariableName, 'payload');
+		assert.deepEqual(tags.bodyParams, ['name']);
+	});
+
+	it('imports the route modules into the server SDK but not what the route files import', async () => {
+		const { files } = await generateFixture('query', { emit: ['server'] });
+		const serverSdk = getFile(files, 'server-sdk.ts');
+		assert.match(serverSdk, /import \* as Route_filtered from '\.\.\/app\/filtered\/route\.ts';/);
+		assert.doesNotMatch(serverSdk, /from 'zod'|from 'next\/server'/);
+	});
+
+	it('imports the runtime helpers from the package by default', async () => {
+		const { files } = await generateFixture('basic');
+		assert.match(getFile(files, 'fetch-client.ts'), /from 'app-router-sdk\/utils\/apiClient\.ts'/);
+		const custom = await generateFixture('basic', { runtimeImportPath: '@/lib/sdk/' });
+		assert.match(getFile(custom.files, 'fetch-client.ts'), /from '@\/lib\/sdk\/apiClient\.ts'/);
+	});
+
+	it('logs through the given logger', async () => {
+		const messages: string[] = [];
+		const logger: GeneratorLogger = {
+			info: (message) => messages.push(message),
+			warn: (message) => messages.push(message),
+			error: (message) => messages.push(message),
+		};
+		await generateFixture('basic', { debug: true, logger });
+		assert.ok(messages.some((message) => message.includes('Parsing routes')));
+	});
+});
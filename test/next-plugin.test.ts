@@ -0,0 +1,29 @@
+import { describe, it } from 'node:test';
+import * as assert from 'node:assert/strict';
+import * as fs from 'node:fs';
+import * as path from 'node:path';
+import { fileURLToPath } from 'node:url';
+import { PHASE_PRODUCTION_BUILD } from 'next/constants';
+import { withAppRouterSdk } from '../scripts/next-plugin.ts';
+
+const fixtureDir = path.resolve(path.dirname(fileURLToPath(import.meta.url)), 'fixtures', 'basic');
+
+describe('withAppRouterSdk', () => {
+	it("doesn't generate when another command loads the config in the build phase", async () => {
+		const argv = process.argv;
+		process.argv = [argv[0], 'next', 'lint'];
+		try {
+			await withAppRouterSdk({}, { rootDir: fixtureDir })(PHASE_PRODUCTION_BUILD, { defaultConfig: {} });
+		} finally {
+			process.argv = argv;
+		}
+		assert.equal(fs.existsSync(path.join(fixtureDir, 'api')), false);
+	});
+
+	it('lets Next.js compile the runtime helpers', async () => {
+		const config = await withAppRouterSdk({ transpilePackages: ['ui'] }, { rootDir: fixtureDir })('phase-test', {
+			defaultConfig: {},
+		});
+		assert.deepEqual(config.transpilePackages, ['ui', 'app-router-sdk']);
+	});
+});
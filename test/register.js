@@ -0,0 +1,11 @@
+import { register } from 'node:module';
+import { pathToFileURL, fileURLToPath } from 'node:url';
+import * as path from 'node:path';
+
+const packageRoot = path.resolve(path.dirname(fileURLToPath(import.meta.url)), '..');
+
+// Compile the generator and the tests with the CLI's setup, extended in test/tsconfig.json
+process.env.TS_NODE_PROJECT ??= path.join(packageRoot, 'test', 'tsconfig.json');
+process.env.TS_NODE_TRANSPILE_ONLY ??= 'true';
+
+register('ts-node/esm', pathToFileURL(packageRoot + path.sep));
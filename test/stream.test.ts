@@ -0,0 +1,113 @@
+import { describe, it } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { parseEventStream, openStream } from '../utils/stream.ts';
+import type { StreamEvent } from '../utils/stream.ts';
+import { HttpError } from '../utils/tryCatch.ts';
+import type { RequestOptions } from '../utils/apiClient.ts';
+
+async function* chunksOf(...chunks: string[]): AsyncGenerator<string> {
+	yield* chunks;
+}
+
+const collect = async <T>(iterable: AsyncIterable<T>): Promise<T[]> => {
+	const items: T[] = [];
+	for await (const item of iterable) items.push(item);
+	return items;
+};
+
+const eventStream = (body: string) => new Response(body, { headers: { 'content-type': 'text/event-stream' } });
+
+// Stubs a streaming route with responses returned in turn, recording the Last-Event-ID of every request
+const stubConnect = (...responses: (() => Promise<Response>)[]) => {
+	const lastEventIds: (string | null)[] = [];
+	const connect = async (request: RequestOptions) => {
+		const headers = new Headers(typeof request.headers === 'function' ? await request.headers() : request.headers);
+		lastEventIds.push(headers.get('Last-Event-ID'));
+		return responses[lastEventIds.length - 1]();
+	};
+	return { connect, lastEventIds };
+};
+
+describe('parseEventStream', () => {
+	it('parses events split across chunks in the middle of lines and fields', async () => {
+		const events = await collect(
+			parseEventStream(chunksOf('id: 1\nda', 'ta: {"tick":', '1}\n\nevent: ti', 'ck\r', '\ndata: {"tick":2}\r\n', '\r\n'), true),
+		);
+		assert.deepEqual(events, [
+			{ event: 'message', data: { tick: 1 }, id: '1', retry: undefined },
+			{ event: 'tick', data: { tick: 2 }, id: '1', retry: undefined },
+		]);
+	});
+
+	it('joins multi-line data and reads the id and retry fields', async () => {
+		const events = await collect(
+			parseEventStream(chunksOf(': keep-alive\n\ndata: first\ndata:second\nid: 7\nretry: 1500\n\ndata\n\n')),
+		);
+		assert.deepEqual(events, [
+			{ event: 'message', data: 'first\nsecond', id: '7', retry: 1500 },
+			{ event: 'message', data: '', id: '7', retry: undefined },
+		]);
+	});
+
+	it('drops an event the stream ends in the middle of', async () => {
+		const events = await collect(parseEventStream(chunksOf('data: done\n\ndata: cut')));
+		assert.deepEqual(events.map((event) => event.data), ['done']);
+	});
+});
+
+describe('openStream', () => {
+	it('reconnects with the last event id until the server answers 204', async () => {
+		const { connect, lastEventIds } = stubConnect(
+			async () => eventStream('id: 1\ndata: a\n\n'),
+			async () => eventStream('id: 2\ndata: b\n\n'),
+			async () => new Response(null, { status: 204 }),
+		);
+		const stream = await openStream<StreamEvent>(connect, {}, { events: true, reconnectDelay: 1 });
+		const events = await collect(stream);
+		assert.deepEqual(events.map((event) => event.data), ['a', 'b']);
+		assert.deepEqual(lastEventIds, [null, '1', '2']);
+	});
+
+	it('keeps reconnecting when reopening the stream fails with a network error', async () => {
+		const { connect, lastEventIds } = stubConnect(
+			async () => eventStream('id: 1\ndata: a\n\n'),
+			async () => {
+				throw new TypeError('Network request failed');
+			},
+			async () => eventStream('id: 2\ndata: b\n\n'),
+			async () => new Response(null, { status: 204 }),
+		);
+		const stream = await openStream<StreamEvent>(connect, {}, { events: true, reconnectDelay: 1 });
+		const events = await collect(stream);
+		assert.deepEqual(events.map((event) => event.data), ['a', 'b']);
+		assert.deepEqual(lastEventIds, [null, '1', '1', '2']);
+	});
+
+	it('fails the iteration when reopening the stream gets an error response', async () => {
+		const { connect } = stubConnect(
+			async () => eventStream('id: 1\ndata: a\n\n'),
+			async () => Response.json({ error: 'gone' }, { status: 410 }),
+		);
+		const stream = await openStream<StreamEvent>(connect, {}, { events: true, reconnectDelay: 1 });
+		const events: unknown[] = [];
+		await assert.rejects(
+			async () => {
+				for await (const event of stream) events.push(event.data);
+			},
+			(error) => error instanceof HttpError && error.status === 410,
+		);
+		assert.deepEqual(events, ['a']);
+	});
+
+	it('ends without reconnecting when aborted', async () => {
+		const { connect, lastEventIds } = stubConnect(async () => eventStream('data: a\n\n'));
+		const stream = await openStream<StreamEvent>(connect, {}, { events: true, reconnectDelay: 1000 });
+		const events: unknown[] = [];
+		for await (const event of stream) {
+			events.push(event.data);
+			stream.abort();
+		}
+		assert.deepEqual(events, ['a']);
+		assert.equal(lastEventIds.length, 1);
+	});
+});
@@ -0,0 +1,252 @@
+// Runtime configuration shared by every request the generated fetch client and client SDK make
+export interface ApiClientConfig {
+	// Prepended to every request path, e.g. 'https://example.com' or a Next.js basePath
+	baseUrl?: string;
+	// Default headers, or a function resolving them per request (e.g. to read a fresh auth token)
+	headers?: HeadersInit | (() => HeadersInit | Promise<HeadersInit>);
+	// The fetch implementation, e.g. a mock in tests or a polyfill in React Native
+	fetch?: typeof fetch;
+	credentials?: RequestCredentials;
+	// How many times a failed request to an idempotent method is retried, with exponential backoff. Defaults to 0.
+	retry?: number;
+	// The delay before the first retry in milliseconds, doubled on every further retry. Defaults to 300.
+	retryDelay?: number;
+	// The time in milliseconds to wait for the response headers before aborting an attempt
+	timeout?: number;
+}
+
+export interface UploadProgress {
+	loaded: number;
+	// 0 when the size of the body isn't known
+	total: number;
+}
+
+// Per-call overrides: the client options plus any other `fetch` init, such as `cache` or `signal`
+export type RequestOptions = ApiClientConfig &
+	Omit<RequestInit, 'method' | 'body' | 'headers' | 'credentials'> & {
+		// Called as the request body is sent. fetch can't report upload progress, so a request with this callback is
+		// sent with XMLHttpRequest instead of the configured fetch.
+		onUploadProgress?: (progress: UploadProgress) => void;
+	};
+
+let clientConfig: ApiClientConfig = {};
+
+// Sets the runtime configuration, merging it over what was configured before
+export function configureApiClient(config: ApiClientConfig): void {
+	clientConfig = { ...clientConfig, ...config };
+}
+
+export function getApiClientConfig(): ApiClientConfig {
+	return clientConfig;
+}
+
+// Resolves a request path against the configured base URL
+export function getApiUrl(path: string, options: RequestOptions = {}): string {
+	const baseUrl = options.baseUrl ?? clientConfig.baseUrl ?? '';
+	return baseUrl.replace(/\/$/, '') + path;
+}
+
+// The inputs a generated call was made with
+export interface ApiInputs {
+	params: Record<string, string | string[] | undefined>;
+	body?: unknown;
+	query?: unknown;
+	searchParams?: Record<string, string>;
+	// The cursor of an infinite query page
+	pageParam?: unknown;
+}
+
+// The inputs of each generated call by route pattern and method. The generated fetch client adds its routes, so
+// middleware can narrow the context by `route` and `method`:
+//   declare module 'app-router-sdk/utils/apiClient.ts' { interface ApiRoutes { '/posts/[postId]': { GET: { ... } } } }
+export interface ApiRoutes {}
+
+// The route, method and inputs of a request: a union of every registered route and method, or loosely typed
+// while no fetch client is generated
+export type ApiRouteRequest = [keyof ApiRoutes] extends [never]
+	? { route: string; method: string; inputs: ApiInputs }
+	: {
+			[R in keyof ApiRoutes & string]: {
+				[M in keyof ApiRoutes[R] & string]: { route: R; method: M; inputs: ApiRoutes[R][M] };
+			}[keyof ApiRoutes[R] & string];
+		}[keyof ApiRoutes & string];
+
+// A request as built by a generated call. `route` is the route pattern, e.g. '/posts/[postId]', and `url` is
+// relative to the configured base URL.
+export type ApiRequest = ApiRouteRequest & {
+	url: string;
+	init: RequestInit;
+	// The policy the route declared with 'use retry <count>' and 'use timeout <ms>' directives
+	policy?: Pick<ApiClientConfig, 'retry' | 'timeout'>;
+};
+
+export type RequestContext = ApiRequest & {
+	// The per-call overrides the request was made with
+	options: RequestOptions;
+};
+
+// Runs around every request. Call `next` to send the request, optionally with a changed context, or call it
+// again to retry, e.g. after refreshing an expired token.
+export type ApiMiddleware = (ctx: RequestContext, next: (ctx?: RequestContext) => Promise<Response>) => Promise<Response>;
+
+const middlewares: ApiMiddleware[] = [];
+
+// Adds a middleware after the ones already registered; the first registered runs outermost.
+// Returns a function that removes it again.
+export function useApiMiddleware(middleware: ApiMiddleware): () => void {
+	middlewares.push(middleware);
+	return () => {
+		const index = middlewares.indexOf(middleware);
+		if (index !== -1) middlewares.splice(index, 1);
+	};
+}
+
+const resolveHeaders = async (headers: ApiClientConfig['headers']): Promise<HeadersInit> =>
+	typeof headers === 'function' ? headers() : headers ?? {};
+
+// Parses the raw response headers of an XMLHttpRequest
+const parseHeaders = (raw: string): Headers => {
+	const headers = new Headers();
+	raw.trim().split(/[\r\n]+/).forEach((line) => {
+		const colon = line.indexOf(':');
+		if (colon > 0) headers.append(line.slice(0, colon).trim(), line.slice(colon + 1).trim());
+	});
+	return headers;
+};
+
+// A fetch that reports upload progress, sent with XMLHttpRequest. It rejects like fetch does: with a TypeError on
+// network errors and with the signal's reason on abort.
+const fetchWithUploadProgress = (
+	url: string,
+	init: RequestInit,
+	onUploadProgress: (progress: UploadProgress) => void,
+): Promise<Response> =>
+	new Promise((resolve, reject) => {
+		const { signal } = init;
+		if (signal?.aborted) return reject(signal.reason);
+		const xhr = new XMLHttpRequest();
+		xhr.open(init.method ?? 'GET', url);
+		new Headers(init.headers).forEach((value, key) => xhr.setRequestHeader(key, value));
+		xhr.withCredentials = init.credentials === 'include';
+		xhr.responseType = 'blob';
+		xhr.upload.onprogress = (event) => onUploadProgress({ loaded: event.loaded, total: event.lengthComputable ? event.total : 0 });
+		xhr.onload = () => {
+			// these statuses can't have a body
+			const body = [101, 204, 205, 304].includes(xhr.status) ? null : (xhr.response as Blob);
+			resolve(new Response(body, { status: xhr.status, statusText: xhr.statusText, headers: parseHeaders(xhr.getAllResponseHeaders()) }));
+		};
+		xhr.onerror = () => reject(new TypeError('Network request failed'));
+		signal?.addEventListener('abort', () => {
+			xhr.abort();
+			reject(signal.reason);
+		}, { once: true });
+		xhr.send((init.body ?? null) as XMLHttpRequestBodyInit | null);
+	});
+
+// Sends a request through the configured fetch. Headers are merged in order: the configured defaults, the
+// generated request's own headers, then the per-call overrides.
+const send = async ({ url, init, options }: RequestContext): Promise<Response> => {
+	const {
+		baseUrl,
+		headers,
+		fetch: fetchOverride,
+		credentials,
+		onUploadProgress,
+		...requestInit
+	} = options;
+	const mergedHeaders = new Headers(await resolveHeaders(clientConfig.headers));
+	[init.headers ?? {}, await resolveHeaders(headers)].forEach((source) =>
+		new Headers(source).forEach((value, key) => mergedHeaders.set(key, value)),
+	);
+	const fetchImpl = onUploadProgress
+		? (input: string, requestInit: RequestInit) => fetchWithUploadProgress(input, requestInit, onUploadProgress)
+		: fetchOverride ?? clientConfig.fetch ?? fetch;
+	return fetchImpl(getApiUrl(url, { baseUrl }), {
+		...init,
+		...requestInit,
+		headers: mergedHeaders,
+		credentials: credentials ?? clientConfig.credentials ?? init.credentials,
+	});
+};
+
+// Runs a request through the registered middleware, in order
+const runMiddleware = (ctx: RequestContext): Promise<Response> => {
+	const chain = [...middlewares];
+	const dispatch = (index: number, ctx: RequestContext): Promise<Response> =>
+		index < chain.length ? chain[index](ctx, (next = ctx) => dispatch(index + 1, next)) : send(ctx);
+	return dispatch(0, ctx);
+};
+
+// Retrying these can't repeat a side effect, so they are the only methods the configured retry applies to
+const IDEMPOTENT_METHODS = ['GET', 'HEAD', 'OPTIONS', 'PUT', 'DELETE'];
+const RETRYABLE_STATUSES = [408, 429, 500, 502, 503, 504];
+
+// Aborts the controller when the signal aborts, with the same reason
+const linkSignal = (controller: AbortController, signal: AbortSignal | null | undefined): void => {
+	if (!signal) return;
+	if (signal.aborted) controller.abort(signal.reason);
+	else signal.addEventListener('abort', () => controller.abort(signal.reason), { once: true });
+};
+
+// Adds an abort signal, such as React Query's, to per-call options. The request aborts when either signal does.
+export function withSignal(
+	options: RequestOptions | undefined,
+	signal: AbortSignal | undefined,
+): RequestOptions & { signal?: AbortSignal } {
+	if (!options?.signal || !signal) return { ...options, signal: signal ?? options?.signal ?? undefined };
+	const controller = new AbortController();
+	linkSignal(controller, options.signal);
+	linkSignal(controller, signal);
+	return { ...options, signal: controller.signal };
+}
+
+const sleep = (ms: number, signal: AbortSignal | null | undefined): Promise<void> =>
+	new Promise((resolve, reject) => {
+		if (signal?.aborted) return reject(signal.reason);
+		const timer = setTimeout(resolve, ms);
+		const onAbort = () => {
+			clearTimeout(timer);
+			reject(signal?.reason);
+		};
+		signal?.addEventListener('abort', onAbort, { once: true });
+	});
+
+// Sends one attempt, aborting it if the response headers don't arrive within the timeout
+const attempt = async (ctx: RequestContext, timeout: number | undefined): Promise<Response> => {
+	if (timeout === undefined) return runMiddleware(ctx);
+	const controller = new AbortController();
+	linkSignal(controller, ctx.options.signal);
+	const timer = setTimeout(
+		() => controller.abort(new DOMException(`Request timed out after ${timeout}ms`, 'TimeoutError')),
+		timeout,
+	);
+	try {
+		return await runMiddleware({ ...ctx, options: { ...ctx.options, signal: controller.signal } });
+	} finally {
+		clearTimeout(timer);
+	}
+};
+
+// Sends a generated request through the registered middleware, retrying network errors, timeouts and
+// retryable statuses. Per-call options take precedence over the route's directives, which take precedence over
+// the configured defaults.
+export async function apiFetch(request: ApiRequest, options: RequestOptions = {}): Promise<Response> {
+	const retry =
+		options.retry ?? request.policy?.retry ?? (IDEMPOTENT_METHODS.includes(request.method) ? clientConfig.retry ?? 0 : 0);
+	const retryDelay = options.retryDelay ?? clientConfig.retryDelay ?? 300;
+	const timeout = options.timeout ?? request.policy?.timeout ?? clientConfig.timeout;
+	const ctx: RequestContext = { ...request, options };
+
+	for (let attemptIndex = 0; ; attemptIndex++) {
+		try {
+			const res = await attempt(ctx, timeout);
+			if (attemptIndex >= retry || !RETRYABLE_STATUSES.includes(res.status)) return res;
+			// the body of a response being retried is never read, so it is released rather than left open
+			await res.body?.cancel();
+		} catch (error) {
+			// an abort by the caller is final
+			if (attemptIndex >= retry || options.signal?.aborted) throw error;
+		}
+		await sleep(retryDelay * 2 ** attemptIndex, options.signal);
+	}
+}
@@ -0,0 +1,96 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { cookies, headers } from 'next/headers';
+import { permanentRedirect, redirect, RedirectType } from 'next/navigation';
+import type { RequestOptions } from './apiClient.ts';
+import type { RedirectResult } from './redirect.ts';
+
+// A route handler as exported by a route module
+export type RouteHandler<P> = (request: NextRequest, context: { params: Promise<P> }) => Response | Promise<Response>;
+
+// Per-call overrides of the request a route handler is called with
+export type RouteRequestOptions = Pick<RequestOptions, 'headers' | 'signal'>;
+
+// A call to a route handler as built by the server SDK. `url` is the path and query of the route.
+export interface RouteCall<P> {
+	url: string;
+	init: RequestInit;
+	params: P;
+}
+
+// Headers describing the body of the request being rendered, which the synthesized request doesn't share
+const BODY_HEADERS = ['content-length', 'content-type', 'content-encoding', 'transfer-encoding'];
+
+// Reads the headers of the request being rendered, with its current cookies. Outside of a request, e.g. in a
+// script or at build time, there are none.
+const getIncomingHeaders = async (): Promise<Headers> => {
+	try {
+		const incoming = new Headers(await headers());
+		// cookies() includes cookies set earlier in a server action, which the Cookie header doesn't
+		const cookieHeader = (await cookies()).toString();
+		if (cookieHeader) incoming.set('cookie', cookieHeader);
+		else incoming.delete('cookie');
+		return incoming;
+	} catch {
+		return new Headers();
+	}
+};
+
+// The origin of the request being rendered, so handlers see the same URLs they would over HTTP
+const getOrigin = (incoming: Headers): string => {
+	const host = incoming.get('x-forwarded-host') ?? incoming.get('host');
+	if (!host) return 'http://localhost';
+	return `${incoming.get('x-forwarded-proto')?.split(',')[0] ?? 'http'}://${host.split(',')[0]}`;
+};
+
+// Applies the cookies a handler set to the response being rendered. Cookies can only be set in server actions and
+// route handlers, so elsewhere they are dropped, as a browser would never receive them from a page either.
+const forwardCookies = async (res: Response): Promise<void> => {
+	const setCookies = new NextResponse(null, { headers: res.headers }).cookies.getAll();
+	if (setCookies.length === 0) return;
+	try {
+		const store = await cookies();
+		setCookies.forEach((cookie) => store.set(cookie));
+	} catch {
+		// read-only while rendering a page
+	}
+};
+
+// Calls a route handler in-process with a synthesized request: the body, query and params come from the call, and
+// the headers and cookies are inherited from the request being rendered. Per-call headers, such as an event
+// stream's Last-Event-ID, override them.
+export async function callRoute<P>(
+	handler: RouteHandler<P>,
+	{ url, init, params }: RouteCall<P>,
+	request: RouteRequestOptions = {},
+): Promise<Response> {
+	const incoming = await getIncomingHeaders();
+	const requestHeaders = new Headers();
+	incoming.forEach((value, key) => {
+		if (!BODY_HEADERS.includes(key)) requestHeaders.set(key, value);
+	});
+	const callHeaders = typeof request.headers === 'function' ? await request.headers() : request.headers;
+	[init.headers ?? {}, callHeaders ?? {}].forEach((source) =>
+		new Headers(source).forEach((value, key) => requestHeaders.set(key, value)),
+	);
+
+	const { signal, ...requestInit } = init;
+	const req = new NextRequest(new URL(url, getOrigin(incoming)), {
+		...requestInit,
+		headers: requestHeaders,
+		signal: request.signal ?? signal ?? undefined,
+	});
+	const res = await handler(req, { params: Promise.resolve(params) });
+	await forwardCookies(res);
+	return res;
+}
+
+// Redirects the page being rendered to a redirect a handler returned: with permanentRedirect() for 301 and 308,
+// and redirect() otherwise. Targets on the current origin are made relative, so the redirect stays client-side.
+export async function redirectTo({ location, status }: RedirectResult, replace = false): Promise<never> {
+	const origin = getOrigin(await getIncomingHeaders());
+	const url = new URL(location, origin);
+	const target = url.origin === origin ? url.pathname + url.search + url.hash : url.href;
+	const type = replace ? RedirectType.replace : RedirectType.push;
+	if (status === 301 || status === 308) permanentRedirect(target, type);
+	redirect(target, type);
+}
@@ -0,0 +1,16 @@
+// Serializes a typed form object into a multipart body. Array values are appended once per item so handlers can
+// read them back with `formData.getAll()`, files and blobs are sent as they are, and null or undefined values are
+// left out. A FormData is passed through unchanged.
+export function toFormData(body: object | FormData): FormData {
+	if (body instanceof FormData) return body;
+	const formData = new FormData();
+	Object.entries(body).forEach(([key, value]) => {
+		const values: unknown[] = Array.isArray(value) ? value : [value];
+		values.forEach((item) => {
+			if (item === undefined || item === null) return;
+			if (item instanceof Blob) formData.append(key, item);
+			else formData.append(key, String(item));
+		});
+	});
+	return formData;
+}
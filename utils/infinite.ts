@@ -0,0 +1,18 @@
+// The pagination contract of one 'use infinite' handler
+export interface PaginationContract {
+	// The query parameter the handler reads the cursor from
+	param: string;
+	// The response property holding the next page's cursor
+	next: string;
+	// The response property holding the previous page's cursor, when pages can be loaded backwards
+	previous?: string;
+	// The cursor of the first page, which is requested without one when omitted
+	initial?: string | number;
+}
+
+type HttpMethod = 'GET' | 'HEAD' | 'POST' | 'PUT' | 'PATCH' | 'DELETE' | 'OPTIONS';
+
+// Declares the pagination contracts of a route's 'use infinite' handlers by method, overriding the ones the generator
+// infers from their responses. Next.js rejects unknown value exports from route files, so it is exported as a type:
+// `export type Infinite = InfiniteContract<{ GET: { param: 'after'; next: 'continuation' } }>`
+export type InfiniteContract<T extends { [M in HttpMethod]?: PaginationContract }> = T;
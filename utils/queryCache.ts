@@ -0,0 +1,80 @@
+// Cache helpers for the generated client SDK. They are typed against the subset of the React Query `QueryClient`
+// they use, so the same helpers work with any client that has these methods.
+export type QueryKey = readonly unknown[];
+
+export interface QueryCacheClient {
+	invalidateQueries(filters: { queryKey: QueryKey }): Promise<void>;
+	prefetchQuery(options: { queryKey: QueryKey; queryFn: (context: { signal?: AbortSignal }) => Promise<unknown> }): Promise<void>;
+	setQueryData(queryKey: QueryKey, updater: unknown): unknown;
+	getQueryData(queryKey: QueryKey): unknown;
+}
+
+// The keys a mutation invalidates once it succeeds, e.g. [API.POSTS.key()] or (data) => [API.POSTS.POSTID(data.id).key()]
+export type Invalidates<TData, TVariables> = QueryKey[] | ((data: TData, variables: TVariables) => QueryKey[]);
+
+let queryClient: QueryCacheClient | undefined;
+
+// Registers the QueryClient used by the `invalidate`, `prefetch`, `setData` and `getData` helpers
+export function setQueryClient(client: QueryCacheClient): void {
+	queryClient = client;
+}
+
+export function getQueryClient(): QueryCacheClient {
+	if (!queryClient) throw new Error('No QueryClient registered, call setQueryClient(queryClient) first');
+	return queryClient;
+}
+
+// Helpers for a node of the API tree; its key is a prefix of every query key below it
+export function queryNode(key: QueryKey) {
+	return {
+		key: () => key,
+		invalidate: () => getQueryClient().invalidateQueries({ queryKey: key }),
+	};
+}
+
+// Adds key and cache helpers to a query hook. `createHook` receives the key and fetcher so the hook shares them.
+// Keys end with the request options, and calling `key()` without them gives a prefix for every request.
+// The fetcher takes the per-call request options first, with React Query's abort signal, so cancelled queries cancel
+// their request.
+export function withQueryCache<TArgs extends [options?: object], TData, THook>(
+	baseKey: QueryKey,
+	fetcher: (request: { signal?: AbortSignal }, ...args: TArgs) => Promise<TData>,
+	createHook: (
+		key: (...args: TArgs) => QueryKey,
+		fetcher: (request: { signal?: AbortSignal }, ...args: TArgs) => Promise<TData>,
+	) => THook,
+) {
+	const key = (...args: TArgs | []): QueryKey => [...baseKey, args[0] ?? {}];
+	return Object.assign(createHook(key, fetcher) as THook & object, {
+		key,
+		invalidate: (...args: TArgs | []) => getQueryClient().invalidateQueries({ queryKey: key(...args) }),
+		prefetch: (...args: TArgs) => getQueryClient().prefetchQuery({ queryKey: key(...args), queryFn: ({ signal }) => fetcher({ signal }, ...args) }),
+		setData: (updater: TData | ((data: TData | undefined) => TData), ...args: TArgs) =>
+			getQueryClient().setQueryData(key(...args), updater) as TData | undefined,
+		getData: (...args: TArgs) => getQueryClient().getQueryData(key(...args)) as TData | undefined,
+	});
+}
+
+// Adds the key helpers to a hook whose cached data is not a plain response, such as an infinite query
+export function withQueryKey<TArgs extends [options?: object], THook>(
+	baseKey: QueryKey,
+	createHook: (key: (...args: TArgs) => QueryKey) => THook,
+) {
+	const key = (...args: TArgs | []): QueryKey => [...baseKey, args[0] ?? {}];
+	return Object.assign(createHook(key) as THook & object, {
+		key,
+		invalidate: (...args: TArgs | []) => getQueryClient().invalidateQueries({ queryKey: key(...args) }),
+	});
+}
+
+// Invalidates the keys a mutation declared, once it has succeeded
+export async function invalidateKeys<TData, TVariables>(
+	client: Pick<QueryCacheClient, 'invalidateQueries'>,
+	invalidates: Invalidates<TData, TVariables> | undefined,
+	data: TData,
+	variables: TVariables,
+): Promise<void> {
+	if (!invalidates) return;
+	const keys = typeof invalidates === 'function' ? invalidates(data, variables) : invalidates;
+	await Promise.all(keys.map((queryKey) => client.invalidateQueries({ queryKey })));
+}
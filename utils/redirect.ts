@@ -0,0 +1,49 @@
+import { readResponse } from './response.ts';
+
+// A redirect returned by a route handler
+export interface RedirectResult {
+	location: string;
+	status: number;
+}
+
+export interface RedirectOptions {
+	// Set to false to return the redirect as data instead of navigating to it. Defaults to true.
+	followRedirect?: boolean;
+	// Replace the current history entry instead of pushing a new one
+	replace?: boolean;
+}
+
+// The router methods the redirect helpers use, as returned by `useRouter()` from next/navigation
+interface RedirectRouter {
+	push(href: string): void;
+	replace(href: string): void;
+}
+
+// Reads the redirect of a request sent with `redirect: 'manual'`. Browsers hide such redirects behind an opaque
+// response without a Location header, so the fallback, the target known from the handler, is returned there.
+export async function readRedirect(res: Response, fallback?: RedirectResult): Promise<RedirectResult> {
+	if (res.type === 'opaqueredirect') {
+		if (fallback) return fallback;
+		throw new TypeError(`The handler at ${res.url} computes its redirect target, which browsers can't read`);
+	}
+	const location = res.headers.get('Location');
+	if (res.status >= 300 && res.status < 400 && location) return { location, status: res.status };
+	// non-2xx responses reject with an HttpError, like any other request
+	await readResponse(res, 'empty');
+	throw new TypeError(`Expected a redirect from ${res.url}, received ${res.status}`);
+}
+
+// Navigates to a redirect: same-origin targets with the App Router, so the page isn't reloaded, and other targets
+// with a full page load
+export function navigateToRedirect(router: RedirectRouter, { location }: RedirectResult, replace = false): void {
+	const url = new URL(location, window.location.href);
+	if (url.origin === window.location.origin) {
+		const href = url.pathname + url.search + url.hash;
+		if (replace) router.replace(href);
+		else router.push(href);
+	} else if (replace) {
+		window.location.replace(url.href);
+	} else {
+		window.location.assign(url.href);
+	}
+}
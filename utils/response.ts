@@ -0,0 +1,39 @@
+import { HttpError } from './tryCatch.ts';
+import type { StatusResponse } from './tryCatch.ts';
+
+// How a response body is decoded, as classified from the handler's responses. A HEAD response has no body and is
+// read as its status and headers.
+export type ResponseBodyKind = 'json' | 'empty' | 'text' | 'binary' | 'head';
+
+// Statuses that can't carry a body
+const NULL_BODY_STATUSES = [101, 204, 205, 304];
+
+// Reads an error body as JSON when it parses, and as text otherwise, e.g. for a proxy's HTML error page.
+// An empty body is null.
+const readErrorBody = async (res: Response): Promise<unknown> => {
+	const text = await res.text();
+	if (!text) return null;
+	try {
+		return JSON.parse(text);
+	} catch {
+		return text;
+	}
+};
+
+// Reads a response body the way the handler sent it: JSON, treating an empty body as null, text, a Blob, or
+// null for empty responses, since React Query rejects a query resolving to undefined. Non-2xx responses reject
+// with an HttpError carrying the status, headers and body, matching the error types of the generated SDK.
+export async function readResponse(res: Response, kind: ResponseBodyKind = 'json') {
+	if (!res.ok) throw new HttpError(res.status, await readErrorBody(res), { statusText: res.statusText, headers: res.headers });
+	if (kind === 'head') return { status: res.status, headers: res.headers };
+	if (kind === 'empty' || NULL_BODY_STATUSES.includes(res.status)) return null;
+	if (kind === 'text') return res.text();
+	if (kind === 'binary') return res.blob();
+	const text = await res.text();
+	return text ? JSON.parse(text) : null;
+}
+
+// Reads a response like readResponse, along with its status, e.g. to tell a 201 Created from a 200 OK
+export async function readStatusResponse<R extends StatusResponse>(res: Response, kind: ResponseBodyKind = 'json'): Promise<R> {
+	return { status: res.status, data: await readResponse(res, kind) } as R;
+}
@@ -0,0 +1,12 @@
+// Serializes a typed query object. Array values are appended once per item so handlers can read them back
+// with `searchParams.getAll()`, and null or undefined values are left out.
+export function toSearchParams(query: object = {}): URLSearchParams {
+	const searchParams = new URLSearchParams();
+	Object.entries(query).forEach(([key, value]) => {
+		const values: unknown[] = Array.isArray(value) ? value : [value];
+		values.forEach((item) => {
+			if (item !== undefined && item !== null) searchParams.append(key, String(item));
+		});
+	});
+	return searchParams;
+}
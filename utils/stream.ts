@@ -0,0 +1,178 @@
+import { readResponse } from './response.ts';
+import type { RequestOptions } from './apiClient.ts';
+
+// An event of a text/event-stream response. `data` is parsed as JSON when the route sends JSON events.
+export interface StreamEvent<T = string> {
+	event: string;
+	data: T;
+	id?: string;
+	retry?: number;
+}
+
+// A streaming response. Iterate it with `for await`, once; `abort()` stops the stream and any reconnection.
+export interface ApiStream<T> extends AsyncIterable<T> {
+	abort(): void;
+}
+
+export interface OpenStreamOptions {
+	// Parse the response as a text/event-stream and reconnect with Last-Event-ID when it drops
+	events?: boolean;
+	// Parse event data as JSON
+	json?: boolean;
+	// The delay before reconnecting in milliseconds, until the server sends a `retry` field. Defaults to 3000.
+	reconnectDelay?: number;
+}
+
+// Decodes a byte stream into text chunks, cancelling it when the consumer stops early
+export async function* readTextStream(stream: ReadableStream<Uint8Array | string> | null): AsyncGenerator<string> {
+	if (!stream) return;
+	const reader = stream.getReader();
+	const decoder = new TextDecoder();
+	let done = false;
+	try {
+		while (true) {
+			const result = await reader.read();
+			if (result.done) {
+				done = true;
+				const rest = decoder.decode();
+				if (rest) yield rest;
+				return;
+			}
+			yield typeof result.value === 'string' ? result.value : decoder.decode(result.value, { stream: true });
+		}
+	} finally {
+		if (!done) await reader.cancel().catch(() => undefined);
+		reader.releaseLock();
+	}
+}
+
+// Parses text/event-stream chunks into events, following the EventSource parsing rules
+export async function* parseEventStream<T = string>(
+	chunks: AsyncIterable<string>,
+	json = false,
+): AsyncGenerator<StreamEvent<T>> {
+	let buffer = '';
+	let data: string[] = [];
+	let event = '';
+	let id: string | undefined;
+	let retry: number | undefined;
+
+	for await (const chunk of chunks) {
+		buffer += chunk;
+		// a trailing \r may be the first half of a \r\n split across chunks, so it is kept with the incomplete line
+		const lines = buffer.split(/\r\n|\r(?!$)|\n/);
+		// the last line may be incomplete, unless the chunk ended with a line break
+		buffer = lines.pop() ?? '';
+		for (const line of lines) {
+			if (line === '') {
+				if (data.length > 0) {
+					const text = data.join('\n');
+					yield { event: event || 'message', data: (json ? JSON.parse(text) : text) as T, id, retry };
+				}
+				data = [];
+				event = '';
+				retry = undefined;
+				continue;
+			}
+			if (line.startsWith(':')) continue;
+			const colon = line.indexOf(':');
+			const field = colon === -1 ? line : line.slice(0, colon);
+			const value = colon === -1 ? '' : line.slice(colon + 1).replace(/^ /, '');
+			if (field === 'data') data.push(value);
+			else if (field === 'event') event = value;
+			else if (field === 'id' && !value.includes('\0')) id = value;
+			else if (field === 'retry' && /^\d+$/.test(value)) retry = Number(value);
+		}
+	}
+}
+
+const sleep = (ms: number, signal: AbortSignal): Promise<void> =>
+	new Promise((resolve) => {
+		const timer = setTimeout(resolve, ms);
+		signal.addEventListener('abort', () => {
+			clearTimeout(timer);
+			resolve();
+		}, { once: true });
+	});
+
+// Adds the Last-Event-ID header to the per-call headers, which may be a function
+const withLastEventId = (request: RequestOptions, lastEventId: string | undefined): RequestOptions['headers'] => {
+	if (lastEventId === undefined) return request.headers;
+	return async () => {
+		const headers = new Headers(typeof request.headers === 'function' ? await request.headers() : request.headers);
+		headers.set('Last-Event-ID', lastEventId);
+		return headers;
+	};
+};
+
+// Opens a streaming request. It resolves once the response headers arrive, rejecting with an HttpError for non-2xx
+// responses, and then yields text chunks or, for event streams, events. An event stream that drops is reopened
+// with the last event's id, also when reopening it fails with a network error, until it is aborted or the server
+// answers with 204 No Content. Reopening it with a non-2xx response fails the iteration with an HttpError.
+export async function openStream<T>(
+	connect: (request: RequestOptions) => Promise<Response>,
+	request: RequestOptions = {},
+	options: OpenStreamOptions = {},
+): Promise<ApiStream<T>> {
+	const controller = new AbortController();
+	const { signal } = request;
+	if (signal?.aborted) controller.abort(signal.reason);
+	else signal?.addEventListener('abort', () => controller.abort(signal.reason), { once: true });
+
+	const open = async (lastEventId?: string): Promise<Response> => {
+		const res = await connect({ ...request, signal: controller.signal, headers: withLastEventId(request, lastEventId) });
+		if (!res.ok) await readResponse(res);
+		return res;
+	};
+	const first = await open();
+
+	async function* iterate(): AsyncGenerator<T> {
+		if (!options.events) {
+			try {
+				yield* readTextStream(first.body) as AsyncGenerator<T>;
+			} catch (error) {
+				// aborting ends the stream rather than failing it
+				if (!controller.signal.aborted) throw error;
+			}
+			return;
+		}
+
+		// undefined while reconnecting to a server that couldn't be reached
+		let res: Response | undefined = first;
+		if (res.status === 204) return;
+		let lastEventId: string | undefined;
+		let delay = options.reconnectDelay ?? 3000;
+		while (!controller.signal.aborted) {
+			try {
+				for await (const event of parseEventStream(readTextStream(res?.body ?? null), options.json)) {
+					if (controller.signal.aborted) return;
+					if (event.id !== undefined) lastEventId = event.id;
+					if (event.retry !== undefined) delay = event.retry;
+					yield event as T;
+				}
+			} catch (error) {
+				if (controller.signal.aborted) return;
+				// a dropped connection is reopened below; anything else is a real error
+				if (!(error instanceof TypeError)) throw error;
+			}
+			await sleep(delay, controller.signal);
+			if (controller.signal.aborted) return;
+			try {
+				res = await open(lastEventId);
+			} catch (error) {
+				if (controller.signal.aborted) return;
+				// a network error is retried after the same delay, while an error response ends the stream with its HttpError
+				if (!(error instanceof TypeError)) throw error;
+				res = undefined;
+				continue;
+			}
+			if (res.status === 204) return;
+		}
+	}
+
+	const iterator = iterate();
+	return {
+		[Symbol.asyncIterator]: () => iterator,
+		abort: () => controller.abort(),
+	};
+}
@@ -1,15 +1,67 @@
 // Types for the result object with discriminated union
-type Success<T> = {
+export type Success<T> = {
 	data: T;
 	error: null;
 };
 
-type Failure<E> = {
+export type Failure<E> = {
 	data: null;
 	error: E;
 };
 
-type Result<T, E = Error> = Success<T> | Failure<E>;
+export type Result<T, E = Error> = Success<T> | Failure<E>;
+
+// A decoded response body and its status. Generated calls type it as a union by status, e.g.
+// { status: 200; data: Post } | { status: 201; data: Post }
+export type StatusResponse<S extends number = number, T = unknown> = {
+	status: S;
+	data: T;
+};
+
+// A Result that also carries the status of a successful response, so checking `status` narrows `data`
+export type StatusResult<R extends StatusResponse, E = Error> = (R & { error: null }) | (Failure<E> & { status?: undefined });
+
+// Error thrown for non-2xx responses, carrying the status, headers and parsed body of the response
+export class HttpError<S extends number = number, T = unknown> extends Error {
+	readonly status: S;
+	readonly statusText: string;
+	readonly headers: Headers;
+	readonly data: T;
+
+	constructor(status: S, data: T, init: ResponseInit = {}) {
+		super(`Request failed with status ${status}${init.statusText ? ` ${init.statusText}` : ''}`);
+		this.name = 'HttpError';
+		this.status = status;
+		this.statusText = init.statusText ?? '';
+		this.headers = new Headers(init.headers);
+		this.data = data;
+	}
+}
+
+type Digit = 0 | 1 | 2 | 3 | 4 | 5 | 6 | 7 | 8 | 9;
+type ToNumber<T> = T extends `${infer N extends number}` ? N : never;
+
+// The status codes of non-2xx responses, 100 to 599 but 200 to 299
+export type ErrorStatus = ToNumber<`${1 | 3 | 4 | 5}${Digit}${Digit}`>;
+
+// An HttpError with none of the statuses a handler declares, e.g. from a proxy. Its status leaves the declared ones
+// out, so checking `error.status === 404` narrows a generated call's error union to the declared 404 and its body.
+export type UnexpectedHttpError<D extends number = never> = HttpError<Exclude<ErrorStatus, D>, unknown>;
+
+// A request that failed without a response, such as a network error or an abort. Its status is undefined, which
+// keeps it apart from the HttpErrors of an error union, also after an `instanceof HttpError` check.
+export type RequestError = Error & { status?: undefined };
+
+// The HttpErrors of an error union with the given status, or any HttpError with that status when the union has none
+type HttpErrorOf<E, S extends number> = [Extract<E, HttpError<S, unknown>>] extends [never]
+	? E & HttpError<S>
+	: Extract<E, HttpError<S, unknown>>;
+
+// Checks for an HttpError, optionally with a given status, e.g. isHttpError(error, 404). Narrows a generated
+// call's error union to the matching declared error, with its typed body.
+export function isHttpError<E, S extends number = number>(error: E, status?: S): error is HttpErrorOf<E, S> {
+	return error instanceof HttpError && (status === undefined || error.status === status);
+}
 
 // Main wrapper function
 export async function tryCatch<T, E = Error>(promise: Promise<T>): Promise<Result<T, E>> {
@@ -28,4 +80,58 @@ export async function tryCatchFunction<T, E = Error>(promise: () => Promise<T>):
 	} catch (error) {
 		return { data: null, error: error as E };
 	}
-}
\ No newline at end of file
+}
+
+// Fixes the error type while still inferring the data type, e.g. tryCatchWithError<ApiError>()(() => fetchUser())
+export function tryCatchWithError<E>() {
+	return <T>(promise: () => Promise<T>): Promise<Result<T, E>> => tryCatchFunction<T, E>(promise);
+}
+
+// Like tryCatchWithError, for a request resolving to a StatusResponse, e.g. tryCatchStatus<ApiError>()(() => fetchUser())
+export function tryCatchStatus<E = Error>() {
+	return async <R extends StatusResponse>(request: () => Promise<R>): Promise<StatusResult<R, E>> => {
+		try {
+			return { ...(await request()), error: null };
+		} catch (error) {
+			return { data: null, error: error as E };
+		}
+	};
+}
+
+// Result helpers. They take any Result, including a StatusResult, and read its data and error types from it.
+type DataOf<R> = R extends Success<infer T> ? T : never;
+type ErrorOf<R> = R extends Failure<infer E> ? E : never;
+
+export function isOk<R extends Result<unknown, unknown>>(result: R): result is Extract<R, { error: null }> {
+	return result.error === null;
+}
+
+export function isErr<R extends Result<unknown, unknown>>(result: R): result is Exclude<R, { error: null }> {
+	return result.error !== null;
+}
+
+// Returns the data of a successful result and throws the error of a failed one
+export function unwrap<R extends Result<unknown, unknown>>(result: R): DataOf<R> {
+	if (isErr(result)) throw result.error;
+	return result.data as DataOf<R>;
+}
+
+// Returns the data of a successful result, or the fallback for a failed one
+export function unwrapOr<R extends Result<unknown, unknown>, F>(result: R, fallback: F): DataOf<R> | F {
+	return isOk(result) ? (result.data as DataOf<R>) : fallback;
+}
+
+export function map<R extends Result<unknown, unknown>, U>(result: R, fn: (data: DataOf<R>) => U): Result<U, ErrorOf<R>> {
+	return isOk(result) ? { data: fn(result.data as DataOf<R>), error: null } : { data: null, error: result.error as ErrorOf<R> };
+}
+
+export function mapError<R extends Result<unknown, unknown>, F>(result: R, fn: (error: ErrorOf<R>) => F): Result<DataOf<R>, F> {
+	return isErr(result) ? { data: null, error: fn(result.error as ErrorOf<R>) } : { data: result.data as DataOf<R>, error: null };
+}
+
+export function match<R extends Result<unknown, unknown>, U>(
+	result: R,
+	handlers: { ok: (data: DataOf<R>) => U; err: (error: ErrorOf<R>) => U },
+): U {
+	return isOk(result) ? handlers.ok(result.data as DataOf<R>) : handlers.err(result.error as ErrorOf<R>);
+}
@@ -0,0 +1,13 @@
+import { useEffect, useState } from 'react';
+
+// Returns a signal that aborts when the component unmounts. Pass it to a streaming call, e.g.
+// API.STREAM.GET({}, { signal }), so the stream is cancelled rather than read into an unmounted component.
+export function useAbortSignal(): AbortSignal {
+	const [controller, setController] = useState(() => new AbortController());
+	useEffect(() => {
+		// Strict Mode unmounts and remounts once in development, so replace a controller aborted by that
+		if (controller.signal.aborted) setController(new AbortController());
+		return () => controller.abort();
+	}, [controller]);
+	return controller.signal;
+}
@@ -0,0 +1,73 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import type { Result } from './tryCatch.ts';
+import type { ApiStream } from './stream.ts';
+
+export type StreamStatus = 'idle' | 'streaming' | 'done' | 'error' | 'aborted';
+
+export interface UseStreamOptions {
+	// Set to false to wait before opening the stream. Defaults to true.
+	enabled?: boolean;
+}
+
+export interface UseStreamResult<T> {
+	// Every chunk or event received so far
+	chunks: T[];
+	status: StreamStatus;
+	error: unknown;
+	// Stops the stream; it is also stopped when the component unmounts or the request changes
+	abort(): void;
+}
+
+interface StreamState<T> {
+	chunks: T[];
+	status: StreamStatus;
+	error: unknown;
+}
+
+// Opens a stream when the component mounts, or when the request key changes, and accumulates what it receives.
+// `open` is called with a signal that aborts on unmount, so the stream is cancelled with the component.
+export function useStream<T>(
+	open: (signal: AbortSignal) => Promise<Result<ApiStream<T>, unknown>>,
+	key: readonly unknown[],
+	options: UseStreamOptions = {},
+): UseStreamResult<T> {
+	const [state, setState] = useState<StreamState<T>>({ chunks: [], status: 'idle', error: null });
+	const controllerRef = useRef<AbortController | null>(null);
+	const openRef = useRef(open);
+	const enabled = options.enabled ?? true;
+	const keyHash = JSON.stringify(key);
+
+	useEffect(() => {
+		openRef.current = open;
+	});
+
+	useEffect(() => {
+		if (!enabled) return;
+		const controller = new AbortController();
+		controllerRef.current = controller;
+		setState({ chunks: [], status: 'streaming', error: null });
+
+		const fail = (error: unknown) => {
+			if (!controller.signal.aborted) setState((prev) => ({ ...prev, status: 'error', error }));
+		};
+		openRef.current(controller.signal).then(async ({ data: stream, error }) => {
+			if (!stream) return fail(error);
+			try {
+				for await (const chunk of stream) {
+					setState((prev) => ({ ...prev, chunks: [...prev.chunks, chunk] }));
+				}
+				if (!controller.signal.aborted) setState((prev) => ({ ...prev, status: 'done' }));
+			} catch (error) {
+				fail(error);
+			}
+		});
+		return () => controller.abort();
+	}, [keyHash, enabled]);
+
+	const abort = useCallback(() => {
+		controllerRef.current?.abort();
+		setState((prev) => (prev.status === 'streaming' ? { ...prev, status: 'aborted' } : prev));
+	}, []);
+
+	return { ...state, abort };
+}